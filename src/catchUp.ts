@@ -0,0 +1,76 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  ActyxEvent,
+  AutoCappedQuery,
+  EventChunk,
+  EventsSortOrder,
+  EventSubscription,
+  OffsetMap,
+} from '@actyx/pond'
+import { concat, defer, Observable, of } from 'rxjs'
+import { map } from 'rxjs/operators'
+
+/** Message delivered by `catchUpAndFollow`. */
+export type CatchUpMessage =
+  /** A chunk of the events that were already known when catching up started. */
+  | Readonly<{ type: 'chunk'; chunk: EventChunk }>
+  /** All known events have been delivered; `offsets` cover everything delivered so far. */
+  | Readonly<{ type: 'caughtUp'; offsets: OffsetMap }>
+  /** A live event that became known after catching up. */
+  | Readonly<{ type: 'event'; event: ActyxEvent }>
+
+/**
+ * Create the `catchUpAndFollow` function of an `RxEventFn` from its `queryAllKnownChunked` and `subscribe`.
+ */
+export const mkCatchUpAndFollow = (
+  queryAllKnownChunked: (
+    query: AutoCappedQuery,
+    chunkSize: number,
+  ) => Observable<EventChunk>,
+  subscribe: (query: EventSubscription) => Observable<ActyxEvent>,
+) => (
+  query: EventSubscription,
+  chunkSize: number,
+): Observable<CatchUpMessage> =>
+  defer(() => {
+    // Chunks are delivered in ascending order, so the `upperBound` of the last one covers
+    // every event delivered. Subscribing from there leaves neither gaps nor duplicates.
+    let offsets: OffsetMap = { ...query.lowerBound }
+
+    const catchUp = queryAllKnownChunked(
+      { ...query, order: EventsSortOrder.Ascending },
+      chunkSize,
+    ).pipe(
+      map(
+        (chunk): CatchUpMessage => {
+          offsets = chunk.upperBound
+          return { type: 'chunk', chunk }
+        },
+      ),
+    )
+
+    const follow = defer(() =>
+      concat(
+        of<CatchUpMessage>({ type: 'caughtUp', offsets }),
+        subscribe({ query: query.query, lowerBound: offsets }).pipe(
+          map((event): CatchUpMessage => ({ type: 'event', event })),
+        ),
+      ),
+    )
+
+    return concat(catchUp, follow)
+  })
@@ -0,0 +1,133 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Tag } from '@actyx/pond'
+import { CheckpointStore, RxPond, RxPondError } from '.'
+import { take, tap, toArray } from 'rxjs/operators'
+
+const NumberTag = Tag<number>('number')
+
+const pushNumbers = (pond: ReturnType<typeof RxPond.test>, from: number) =>
+  pond.directlyPushEvents(
+    [0, 1, 2].map(i => ({ tags: ['number'], payload: from + i })),
+  )
+
+describe('subscribeFromCheckpoint', () => {
+  it('resumes after the last acknowledged event', async () => {
+    const pond = RxPond.test()
+    const store = CheckpointStore.inMemory()
+    pushNumbers(pond, 0)
+
+    const first = await pond
+      .events()
+      .subscribeFromCheckpoint({ query: NumberTag }, store)
+      .pipe(
+        take(2),
+        tap(e => e.ack()),
+        toArray(),
+      )
+      .toPromise()
+    await first[1].ack()
+    expect(first.map(e => e.event.payload)).toEqual([0, 1])
+
+    pushNumbers(pond, 3)
+    const second = await pond
+      .events()
+      .subscribeFromCheckpoint({ query: NumberTag }, store)
+      .pipe(take(4), toArray())
+      .toPromise()
+    pond.dispose()
+
+    expect(second.map(e => e.event.payload)).toEqual([2, 3, 4, 5])
+    expect(await store.load()).toEqual(first[1].offsets)
+  })
+
+  it('ignores acknowledgements of earlier events', async () => {
+    const pond = RxPond.test()
+    const store = CheckpointStore.inMemory()
+    pushNumbers(pond, 0)
+
+    const events = await pond
+      .events()
+      .subscribeFromCheckpoint({ query: NumberTag }, store)
+      .pipe(take(3), toArray())
+      .toPromise()
+    await events[2].ack()
+    await events[0].ack()
+    pond.dispose()
+
+    expect(await store.load()).toEqual({ 'TEST-REMOTE-0': 2 })
+  })
+
+  it('errors when the store fails', async () => {
+    const pond = RxPond.test()
+    const store: CheckpointStore = {
+      load: () => Promise.reject(new Error('store unavailable')),
+      save: () => Promise.resolve(),
+    }
+
+    const err = await pond
+      .events()
+      .subscribeFromCheckpoint({ query: NumberTag }, store)
+      .toPromise()
+      .catch(e => e)
+    pond.dispose()
+
+    expect(err).toBeInstanceOf(RxPondError)
+    expect(err.operation).toEqual('subscribeFromCheckpoint')
+    expect(err.cause).toEqual(new Error('store unavailable'))
+  })
+
+  it('rejects acknowledgements when saving fails', async () => {
+    const pond = RxPond.test()
+    pushNumbers(pond, 0)
+    const store: CheckpointStore = {
+      load: () => Promise.resolve(undefined),
+      save: () => Promise.reject(new Error('disk full')),
+    }
+
+    const acks: Promise<unknown>[] = []
+    const events = pond
+      .events()
+      .subscribeFromCheckpoint({ query: NumberTag }, store)
+    const streamErr = new Promise(resolve =>
+      events.subscribe({
+        next: e => acks.push(e.ack().catch(err => err)),
+        error: resolve,
+      }),
+    )
+    const err = await streamErr
+    pond.dispose()
+
+    expect(err).toBeInstanceOf(RxPondError)
+    expect(await acks[0]).toBe(err)
+  })
+})
+
+describe('CheckpointStore', () => {
+  it('localStorage stores offsets under the given key', async () => {
+    const items: Record<string, string> = {}
+    const storage = {
+      getItem: (key: string) => (key in items ? items[key] : null),
+      setItem: (key: string, value: string) => (items[key] = value),
+    }
+    const store = CheckpointStore.localStorage('my-export', storage)
+
+    expect(await store.load()).toBeUndefined()
+    await store.save({ a: 1 })
+    expect(items).toEqual({ 'my-export': '{"a":1}' })
+    expect(await store.load()).toEqual({ a: 1 })
+  })
+})
@@ -0,0 +1,128 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { ActyxEvent, EventSubscription, OffsetMap } from '@actyx/pond'
+import { Observable, Subscription } from 'rxjs'
+import { describeWhere, rxPondError } from './errors'
+import { inMemoryStore, localStorageStore } from './stores'
+
+/**
+ * Persistence for the offsets up to which a consumer has processed events.
+ * Each store holds the checkpoint of exactly one consumer.
+ */
+export type CheckpointStore = {
+  /** Load the last saved offsets, or `undefined` if nothing has been saved yet. */
+  load: () => Promise<OffsetMap | undefined>
+  /** Save offsets, replacing whatever was saved before. */
+  save: (offsets: OffsetMap) => Promise<void>
+}
+
+/** Subscription whose lower bound is taken from a `CheckpointStore`. */
+export type CheckpointQuery = Omit<EventSubscription, 'lowerBound'>
+
+/** An event delivered by `subscribeFromCheckpoint`. */
+export type CheckpointedEvent<E = unknown> = Readonly<{
+  /** The event itself. */
+  event: ActyxEvent<E>
+  /** Offsets covering this event and everything delivered before it. */
+  offsets: OffsetMap
+  /**
+   * Acknowledge that this event and everything delivered before it has been processed,
+   * committing `offsets` to the store. Acknowledging an earlier event afterwards has no effect.
+   *
+   * @returns A Promise that resolves once the offsets have been committed, or rejects with an
+   *          `RxPondError` if saving them failed; the failure also ends the stream of events.
+   */
+  ack: () => Promise<void>
+}>
+
+/** Factories for the `CheckpointStore`s that come with RxPond. */
+export const CheckpointStore = {
+  /** Keep the checkpoint in memory only. */
+  inMemory: (initial?: OffsetMap): CheckpointStore => inMemoryStore(initial),
+
+  /**
+   * Keep the checkpoint as JSON in the browser’s `localStorage`.
+   *
+   * @param key     - Key to store the checkpoint under.
+   * @param storage - Storage to use instead of `window.localStorage`.
+   */
+  localStorage: (
+    key: string,
+    storage?: Pick<Storage, 'getItem' | 'setItem'>,
+  ): CheckpointStore => localStorageStore(key, storage),
+}
+
+/**
+ * Create the `subscribeFromCheckpoint` function of an `RxEventFn` on top of its `subscribe`.
+ */
+export const mkSubscribeFromCheckpoint = (
+  subscribe: (query: EventSubscription) => Observable<ActyxEvent>,
+) => (
+  query: CheckpointQuery,
+  store: CheckpointStore,
+): Observable<CheckpointedEvent> =>
+  new Observable<CheckpointedEvent>(o => {
+    const toError = rxPondError('subscribeFromCheckpoint', {
+      tags: describeWhere(query.query),
+    })
+    let closed = false
+    let sub: Subscription | undefined = undefined
+    // Commits are chained so that they reach the store in order, even if one of them failed.
+    let committed: Promise<void> = Promise.resolve()
+    let lastCommitted = -1
+
+    store.load().then(
+      lowerBound => {
+        if (closed) {
+          return
+        }
+        let offsets: OffsetMap = { ...lowerBound }
+        let seq = 0
+        sub = subscribe({ ...query, lowerBound }).subscribe(
+          event => {
+            offsets = OffsetMap.update({ ...offsets }, event.meta)
+            const eventOffsets = offsets
+            const eventSeq = seq++
+            const ack = () => {
+              if (eventSeq > lastCommitted) {
+                lastCommitted = eventSeq
+                committed = committed
+                  .catch(() => undefined)
+                  .then(() => store.save(eventOffsets))
+                  .catch(err => {
+                    const error = toError(err)
+                    o.error(error)
+                    throw error
+                  })
+                // The failure is reported through the stream, so callers need not handle it.
+                committed.catch(() => undefined)
+              }
+              return committed
+            }
+            o.next({ event, offsets: eventOffsets, ack })
+          },
+          err => o.error(err),
+          () => o.complete(),
+        )
+      },
+      err => o.error(toError(err)),
+    )
+
+    return () => {
+      closed = true
+      sub && sub.unsubscribe()
+    }
+  })
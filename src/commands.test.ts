@@ -0,0 +1,165 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Fish, FishId, Tag } from '@actyx/pond'
+import { CommandHandler, RxPond, RxPondError } from '.'
+import { first } from 'rxjs/operators'
+
+type Deposit = Readonly<{ account: string; amount: number }>
+
+const DepositTag = Tag<number>('deposit')
+const AccountFish = (account: string): Fish<number, number> => ({
+  fishId: FishId.of('Account', account, 1),
+  initialState: 0,
+  onEvent: (balance, amount) => balance + amount,
+  where: DepositTag.withId(account),
+})
+
+const DepositHandler: CommandHandler<Deposit, number, number> = {
+  fish: ({ account }) => AccountFish(account),
+  validate: (balance, { amount }) =>
+    balance + amount > 100 ? 'limit exceeded' : undefined,
+  events: (_, { account, amount }) => [
+    { tags: DepositTag.withId(account), payload: amount },
+  ],
+}
+
+const balance = (pond: RxPond, account: string, expected: number) =>
+  pond
+    .observe(AccountFish(account))
+    .pipe(first(b => b === expected))
+    .toPromise()
+
+describe('dispatch', () => {
+  it('emits the events of accepted commands', async () => {
+    const pond = RxPond.test()
+    const result = await pond
+      .dispatch(DepositHandler, { account: 'a', amount: 60 })
+      .toPromise()
+    await balance(pond, 'a', 60)
+    pond.dispose()
+
+    expect(result.type).toEqual('accepted')
+    expect(
+      result.type === 'accepted' &&
+        result.metadata.map(({ tags }) => [...tags].sort()),
+    ).toEqual([['deposit', 'deposit:a']])
+  })
+
+  it('rejects commands failing validation without emitting', async () => {
+    const pond = RxPond.test()
+    await pond
+      .dispatch(DepositHandler, { account: 'a', amount: 60 })
+      .toPromise()
+    const result = await pond
+      .dispatch(DepositHandler, { account: 'a', amount: 60 })
+      .toPromise()
+    const { events } = await pond
+      .events()
+      .queryAllKnown({ query: DepositTag })
+      .toPromise()
+    pond.dispose()
+
+    expect(result).toEqual({ type: 'rejected', reason: 'limit exceeded' })
+    expect(events.map(e => e.payload)).toEqual([60])
+  })
+
+  it('handles commands with the same idempotency key only once', async () => {
+    const pond = RxPond.test()
+    const command = { account: 'a', amount: 10 }
+    const opts = { idempotencyKey: 'deposit-1' }
+    const initial = await pond
+      .dispatch(DepositHandler, command, opts)
+      .toPromise()
+    const retried = await pond
+      .dispatch(DepositHandler, command, opts)
+      .toPromise()
+    await pond
+      .dispatch(DepositHandler, command, { idempotencyKey: 'deposit-2' })
+      .toPromise()
+    await balance(pond, 'a', 20)
+    pond.dispose()
+
+    expect(retried).toEqual(initial)
+  })
+
+  it('does not emit again when a command failed after emitting', async () => {
+    const pond = RxPond.test()
+    // Looking up the metadata of the emitted events fails once.
+    jest
+      .spyOn(pond.originalPond.events(), 'queryKnownRange')
+      .mockRejectedValueOnce(new Error('lookup failed'))
+    const command = { account: 'a', amount: 10 }
+    const opts = { idempotencyKey: 'k' }
+    const err = await pond
+      .dispatch(DepositHandler, command, opts)
+      .toPromise()
+      .catch(e => e)
+    const retried = await pond
+      .dispatch(DepositHandler, command, opts)
+      .toPromise()
+      .catch(e => e)
+    const deposits = await pond
+      .events()
+      .queryAllKnown({ query: DepositTag })
+      .toPromise()
+    pond.dispose()
+
+    expect(err).toBeInstanceOf(RxPondError)
+    expect(retried).toBe(err)
+    expect(deposits.events.map(e => e.payload)).toEqual([10])
+  })
+
+  it('rejects reusing an idempotency key for a different command', async () => {
+    const pond = RxPond.test()
+    const opts = { idempotencyKey: 'k' }
+    await pond
+      .dispatch(DepositHandler, { account: 'a', amount: 10 }, opts)
+      .toPromise()
+    const same = await pond
+      .dispatch(DepositHandler, { amount: 10, account: 'a' }, opts)
+      .toPromise()
+    const err = await pond
+      .dispatch(DepositHandler, { account: 'a', amount: 20 }, opts)
+      .toPromise()
+      .catch(e => e)
+    pond.dispose()
+
+    expect(same.type).toEqual('accepted')
+    expect(err).toBeInstanceOf(RxPondError)
+    expect(err.message).toContain("idempotency key 'k'")
+  })
+
+  it('errors with an RxPondError when the validator throws', async () => {
+    const pond = RxPond.test()
+    const err = await pond
+      .dispatch(
+        {
+          ...DepositHandler,
+          validate: () => {
+            throw new Error('broken validator')
+          },
+        },
+        { account: 'a', amount: 1 },
+      )
+      .toPromise()
+      .catch(e => e)
+    pond.dispose()
+
+    expect(err).toBeInstanceOf(RxPondError)
+    expect(err.operation).toEqual('dispatch')
+    expect(err.context.fishId).toEqual(AccountFish('a').fishId)
+  })
+})
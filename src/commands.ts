@@ -0,0 +1,237 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Fish, Metadata, Pond, StateEffect, Tags } from '@actyx/pond'
+import { defer, Observable, throwError } from 'rxjs'
+import { fromPromise, RxPondError, rxPondError } from './errors'
+import { Application, canonicalJson, lookupMetadata } from './keepRunning'
+
+/** An event produced by a command, to be emitted with the given tags. */
+export type CommandEvent<E> = Readonly<{
+  tags: Tags<E>
+  payload: E
+}>
+
+/**
+ * Description of how to handle commands of type `C`.
+ *
+ * @typeParam C        - Type of the commands.
+ * @typeParam S        - Type of the state of the Fish the commands are validated against.
+ * @typeParam E        - Type of the events produced by the commands.
+ */
+export type CommandHandler<C, S, E> = Readonly<{
+  /** The Fish whose state the given command is validated against. */
+  fish: (command: C) => Fish<S, any>
+  /** Return the reason for rejecting the command, or `undefined` to accept it. */
+  validate: (state: S, command: C) => string | undefined
+  /** The events to emit for an accepted command. */
+  events: (state: S, command: C) => ReadonlyArray<CommandEvent<E>>
+}>
+
+/** Outcome of dispatching a command. */
+export type CommandResult =
+  /** The command was accepted; `metadata` describes the emitted events in order. */
+  | Readonly<{ type: 'accepted'; metadata: Metadata[] }>
+  /** The command was rejected by the validator; nothing was emitted. */
+  | Readonly<{ type: 'rejected'; reason: string }>
+
+/** Optional arguments for dispatching a command. */
+export type DispatchOpts = Readonly<{
+  /**
+   * Commands dispatched with the same key are handled only once; later dispatches resolve to the
+   * result of the first one. Reusing a key for a different command or handler is an error.
+   * The 10000 most recently used keys are remembered.
+   */
+  idempotencyKey?: string
+}>
+
+/** Dispatch a command without idempotency key. */
+export type RunCommand = <C, S, E>(
+  handler: CommandHandler<C, S, E>,
+  command: C,
+) => Observable<CommandResult>
+
+/** Dispatch a command, optionally with idempotency key. */
+export type Dispatch = <C, S, E>(
+  handler: CommandHandler<C, S, E>,
+  command: C,
+  opts?: DispatchOpts,
+) => Observable<CommandResult>
+
+/**
+ * Marks failures after the events of an accepted command have been emitted, e.g. when looking up
+ * their metadata failed; dispatching the command again would emit them a second time.
+ */
+class EmittedError extends Error {
+  constructor(readonly cause: unknown) {
+    super(
+      `events were emitted, but their metadata is unavailable: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+    )
+  }
+}
+
+const isEmittedError = (err: unknown): boolean =>
+  err instanceof EmittedError ||
+  (err instanceof RxPondError && err.cause instanceof EmittedError)
+
+type Outcome<S> =
+  | Readonly<{ type: 'rejected'; reason: string }>
+  | Readonly<{ type: 'accepted'; application: Application<S> }>
+
+/**
+ * Create a `RunCommand` function running commands as state effects on the given Pond.
+ * Validation and emission happen within one effect, so they see the same state.
+ */
+export const mkRunCommand = (pond: Pond): RunCommand => <C, S, E>(
+  handler: CommandHandler<C, S, E>,
+  command: C,
+): Observable<CommandResult> =>
+  defer(() => {
+    const fish = handler.fish(command)
+    const toError = rxPondError('dispatch', {
+      fishId: fish.fishId,
+      tags: fish.where.toString(),
+    })
+
+    const runOnce = async (): Promise<CommandResult> => {
+      let outcome: Outcome<S> | undefined = undefined
+      const effect: StateEffect<S, E> = async (state, enqueue) => {
+        const reason = handler.validate(state, command)
+        if (reason !== undefined) {
+          outcome = { type: 'rejected', reason }
+          return
+        }
+        const events = handler.events(state, command)
+        const lowerBound = await pond.events().present()
+        events.forEach(({ tags, payload }) => enqueue(tags, payload))
+        outcome = {
+          type: 'accepted',
+          application: {
+            state,
+            enqueued: events.map(({ tags, payload }) => tags.apply(payload)),
+            lowerBound,
+          },
+        }
+      }
+      await pond.run(fish, effect).toPromise()
+
+      // Assigned within the effect, which TypeScript cannot see.
+      const result = outcome as Outcome<S> | undefined
+      if (result === undefined) {
+        throw new Error('state effect was not applied')
+      }
+      if (result.type === 'rejected') {
+        return result
+      }
+      if (result.application.enqueued.length === 0) {
+        return { type: 'accepted', metadata: [] }
+      }
+      const { metadata } = await lookupMetadata(pond, result.application).catch(
+        err => {
+          throw new EmittedError(err)
+        },
+      )
+      return { type: 'accepted', metadata }
+    }
+
+    return fromPromise(runOnce(), toError)
+  })
+
+/** Number of idempotency keys remembered by `dispatch` unless configured otherwise. */
+const DEFAULT_MAX_IDEMPOTENCY_KEYS = 10000
+
+type Dispatched = Readonly<{
+  handler: CommandHandler<any, any, any>
+  command: string
+  result: Promise<CommandResult>
+}>
+
+/**
+ * Create the `dispatch` function of an `RxPond`, remembering the results of commands
+ * dispatched with an idempotency key.
+ *
+ * Keys of commands that failed before emitting anything are released, so that they may be retried;
+ * keys of commands that emitted their events stay reserved, even if the command failed afterwards.
+ * Only the `maxKeys` most recently used keys are remembered.
+ */
+export const mkDispatch = (
+  runCommand: RunCommand,
+  maxKeys: number = DEFAULT_MAX_IDEMPOTENCY_KEYS,
+): Dispatch => {
+  // Iterates in insertion order, so the first entry is the least recently used one.
+  const dispatched = new Map<string, Dispatched>()
+
+  const remember = (key: string, entry: Dispatched) => {
+    dispatched.delete(key)
+    dispatched.set(key, entry)
+    for (const oldest of dispatched.keys()) {
+      if (dispatched.size <= maxKeys) {
+        break
+      }
+      dispatched.delete(oldest)
+    }
+  }
+
+  return <C, S, E>(
+    handler: CommandHandler<C, S, E>,
+    command: C,
+    opts: DispatchOpts = {},
+  ): Observable<CommandResult> => {
+    const { idempotencyKey } = opts
+    if (idempotencyKey === undefined) {
+      return runCommand(handler, command)
+    }
+    return defer(() => {
+      const serialized = canonicalJson(command)
+      const existing = dispatched.get(idempotencyKey)
+      if (
+        existing !== undefined &&
+        (existing.handler !== handler || existing.command !== serialized)
+      ) {
+        return throwError(
+          new RxPondError(
+            'dispatch',
+            new Error(
+              `idempotency key '${idempotencyKey}' was already used for a different command`,
+            ),
+          ),
+        )
+      }
+      // Once started, the command runs to completion even if the subscriber goes away.
+      const entry: Dispatched = existing || {
+        handler,
+        command: serialized,
+        result: runCommand(handler, command)
+          .toPromise()
+          .catch(err => {
+            if (
+              !isEmittedError(err) &&
+              dispatched.get(idempotencyKey) === entry
+            ) {
+              dispatched.delete(idempotencyKey)
+            }
+            throw err
+          }),
+      }
+      remember(idempotencyKey, entry)
+      const { result } = entry
+      return fromPromise(result, err =>
+        err instanceof RxPondError ? err : rxPondError('dispatch')(err),
+      )
+    })
+  }
+}
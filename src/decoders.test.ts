@@ -0,0 +1,97 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { ActyxEvent, Tag } from '@actyx/pond'
+import { Decoder, InvalidEvent, RxPond } from '.'
+import { take, toArray } from 'rxjs/operators'
+
+type Reading = { value: number }
+const ReadingTag = Tag<Reading>('reading')
+
+const isReading = (payload: unknown): payload is Reading =>
+  typeof payload === 'object' &&
+  payload !== null &&
+  typeof (payload as Reading).value === 'number'
+
+const mkPond = () => {
+  const pond = RxPond.test()
+  pond.directlyPushEvents([
+    { tags: ['reading'], payload: { value: 1 } },
+    { tags: ['reading'], payload: { value: 'two' } },
+    { tags: ['reading'], payload: { value: 3 } },
+  ])
+  return pond
+}
+
+describe('typed event streams', () => {
+  it('carry the event type of the query', async () => {
+    const pond = mkPond()
+
+    const events: ActyxEvent<Reading>[] = await pond
+      .events()
+      .subscribe({ query: ReadingTag })
+      .pipe(take(3), toArray())
+      .toPromise()
+    pond.dispose()
+
+    expect(events.map(e => e.payload.value)).toEqual([1, 'two', 3])
+  })
+
+  it('route events failing to decode to invalid$', async () => {
+    const pond = mkPond()
+    const decoded = pond
+      .events()
+      .withDecoders({ reading: Decoder.fromPredicate(isReading, 'no reading') })
+    const invalid: InvalidEvent[] = []
+    decoded.invalid$.subscribe(e => invalid.push(e))
+
+    const values = await decoded
+      .subscribe({ query: ReadingTag })
+      .pipe(take(2), toArray())
+      .toPromise()
+    pond.dispose()
+
+    expect(values.map(e => e.payload.value)).toEqual([1, 3])
+    expect(invalid.map(i => [i.tag, i.error, i.event.payload])).toEqual([
+      ['reading', 'no reading', { value: 'two' }],
+    ])
+  })
+
+  it('apply decoders to queried ranges and treat throwing decoders as rejection', async () => {
+    const pond = mkPond()
+    const upperBound = await pond
+      .events()
+      .currentOffsets()
+      .toPromise()
+    const decoded = pond.events().withDecoders({
+      reading: payload => {
+        if (!isReading(payload)) {
+          throw new Error('not a reading')
+        }
+        return { ok: true, value: { value: payload.value * 10 } }
+      },
+    })
+    const invalid: InvalidEvent[] = []
+    decoded.invalid$.subscribe(e => invalid.push(e))
+
+    const events = await decoded
+      .queryKnownRange({ query: ReadingTag, upperBound })
+      .toPromise()
+    pond.dispose()
+
+    expect(events.map(e => e.payload.value)).toEqual([10, 30])
+    expect(invalid.map(i => i.error)).toEqual(['not a reading'])
+  })
+})
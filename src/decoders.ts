@@ -0,0 +1,153 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { ActyxEvent } from '@actyx/pond'
+import { Observable, Subject } from 'rxjs'
+import { map, mergeMap } from 'rxjs/operators'
+import { TypedEventSubscription, TypedRangeQuery } from './events'
+
+/** Outcome of decoding an event payload. */
+export type DecodeResult<E> =
+  | Readonly<{ ok: true; value: E }>
+  | Readonly<{ ok: false; error: string }>
+
+/**
+ * Runtime check of an event payload, e.g. backed by an io-ts codec or a zod schema.
+ * May also convert the payload, e.g. to fill in defaults.
+ */
+export type Decoder<E> = (payload: unknown) => DecodeResult<E>
+
+/** Decoders to apply to the payloads of events, by tag. */
+export type PayloadDecoders = Readonly<Record<string, Decoder<unknown>>>
+
+/** An event whose payload has been rejected by a decoder. */
+export type InvalidEvent = Readonly<{
+  /** The event as it was delivered. */
+  event: ActyxEvent
+  /** The tag whose decoder rejected the payload. */
+  tag: string
+  /** Description of why the payload was rejected. */
+  error: string
+}>
+
+/** Event functions that check payloads with decoders before handing them out. */
+export type DecodedEventFn = {
+  /**
+   * Get all known events between the given offsets, in one array.
+   * Events failing to decode are left out and delivered to `invalid$` instead.
+   *
+   * @param query       - `RangeQuery` object specifying the desired set of events.
+   *
+   * @returns An Observable that emits the complete set of valid queried events.
+   */
+  queryKnownRange: <E = unknown>(
+    query: TypedRangeQuery<E>,
+  ) => Observable<ActyxEvent<E>[]>
+  /**
+   * Subscribe to all events fitting the `query` after `lowerBound`.
+   * Events failing to decode are left out and delivered to `invalid$` instead.
+   *
+   * @param query       - `EventSubscription` object specifying the desired set of events.
+   *
+   * @returns An Observable of valid events that goes on forever, until unsubscribed.
+   */
+  subscribe: <E = unknown>(
+    query: TypedEventSubscription<E>,
+  ) => Observable<ActyxEvent<E>>
+  /** Events rejected by a decoder in any of the streams obtained from this object. */
+  invalid$: Observable<InvalidEvent>
+}
+
+/** Functions related to `Decoder`s. */
+export const Decoder = {
+  /** Create a `Decoder` that checks payloads with a type guard, leaving them unchanged. */
+  fromPredicate: <E>(
+    isValid: (payload: unknown) => payload is E,
+    error: string = 'payload rejected by predicate',
+  ): Decoder<E> => payload =>
+    isValid(payload) ? { ok: true, value: payload } : { ok: false, error },
+}
+
+type Decoded<E> =
+  | Readonly<{ ok: true; event: ActyxEvent<E> }>
+  | Readonly<{ ok: false; invalid: InvalidEvent }>
+
+const hasOwnProperty = Object.prototype.hasOwnProperty
+
+/**
+ * Pass the payload through the decoders of all its tags that have one, in the order of the tags.
+ * A decoder that throws rejects the payload.
+ */
+const decodeEvent = <E>(
+  decoders: PayloadDecoders,
+  event: ActyxEvent,
+): Decoded<E> => {
+  let payload = event.payload
+  for (const tag of event.meta.tags) {
+    if (!hasOwnProperty.call(decoders, tag)) {
+      continue
+    }
+    let result: DecodeResult<unknown>
+    try {
+      result = decoders[tag](payload)
+    } catch (err) {
+      result = {
+        ok: false,
+        error: err instanceof Error ? err.message : String(err),
+      }
+    }
+    if (!result.ok) {
+      return { ok: false, invalid: { event, tag, error: result.error } }
+    }
+    payload = result.value
+  }
+  return { ok: true, event: { meta: event.meta, payload: payload as E } }
+}
+
+/**
+ * Create the `withDecoders` function of an `RxEventFn` from its `subscribe` and `queryKnownRange`.
+ */
+export const mkWithDecoders = (
+  subscribe: <E>(query: TypedEventSubscription<E>) => Observable<ActyxEvent<E>>,
+  queryKnownRange: <E>(
+    query: TypedRangeQuery<E>,
+  ) => Observable<ActyxEvent<E>[]>,
+) => (decoders: PayloadDecoders): DecodedEventFn => {
+  const invalid$ = new Subject<InvalidEvent>()
+
+  const decode = <E>(event: ActyxEvent): ActyxEvent<E>[] => {
+    const decoded = decodeEvent<E>(decoders, event)
+    if (decoded.ok) {
+      return [decoded.event]
+    }
+    invalid$.next(decoded.invalid)
+    return []
+  }
+
+  return {
+    queryKnownRange: <E>(query: TypedRangeQuery<E>) =>
+      queryKnownRange<unknown>(query).pipe(
+        map(events =>
+          events.reduce(
+            (acc, e) => acc.concat(decode<E>(e)),
+            [] as ActyxEvent<E>[],
+          ),
+        ),
+      ),
+    subscribe: <E>(query: TypedEventSubscription<E>) =>
+      subscribe<unknown>(query).pipe(mergeMap(e => decode<E>(e))),
+    invalid$: invalid$.asObservable(),
+  }
+}
@@ -0,0 +1,140 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { FishId, TaggedEvent, Where } from '@actyx/pond'
+import { Observable } from 'rxjs'
+
+/** Operations of `RxPond` and `RxEventFn` that may fail. */
+export type RxPondOperation =
+  | 'emit'
+  | 'observe'
+  | 'observeAll'
+  | 'observeAllChanges'
+  | 'observeOne'
+  | 'observeRxFish'
+  | 'observeJoined'
+  | 'run'
+  | 'keepRunning$'
+  | 'dispatch'
+  | 'currentOffsets'
+  | 'queryKnownRange'
+  | 'queryKnownRangeChunked'
+  | 'queryAllKnown'
+  | 'queryAllKnownChunked'
+  | 'subscribe'
+  | 'subscribeFromCheckpoint'
+  | 'observeEarliest'
+  | 'observeLatest'
+  | 'observeBestMatch'
+  | 'observeUnorderedReduce'
+  | 'importNdjson'
+
+/** What the failed operation was working on. */
+export type RxPondErrorContext = Readonly<{
+  /** Textual representation of the tags or query involved, e.g. `'machine' & 'machine:m1'` */
+  tags?: string
+  /** Fish whose aggregation or state effect failed */
+  fishId?: FishId
+}>
+
+const describeCause = (cause: unknown): string =>
+  cause instanceof Error ? cause.message : String(cause)
+
+const describeContext = ({ tags, fishId }: RxPondErrorContext): string => {
+  const parts = [
+    fishId !== undefined ? `fishId ${FishId.canonical(fishId)}` : undefined,
+    tags !== undefined ? `tags ${tags}` : undefined,
+  ].filter(x => x !== undefined)
+  return parts.length > 0 ? ` (${parts.join(', ')})` : ''
+}
+
+/**
+ * Error delivered through the Observables of `RxPond` and `RxEventFn` when the underlying
+ * Pond operation fails, e.g. because the node refused an emission or a Fish’s `onEvent` threw.
+ */
+export class RxPondError extends Error {
+  readonly name = 'RxPondError'
+
+  constructor(
+    /** The operation that failed */
+    readonly operation: RxPondOperation,
+    /** The original error reported by the Pond */
+    readonly cause: unknown,
+    /** What the operation was working on */
+    readonly context: RxPondErrorContext = {},
+  ) {
+    super(
+      `RxPond.${operation} failed${describeContext(context)}: ${describeCause(
+        cause,
+      )}`,
+    )
+  }
+}
+
+/**
+ * Error thrown when an `RxPond` is used after it has been disposed, and delivered through
+ * Observables obtained before disposal that are subscribed to afterwards or cannot finish anymore.
+ */
+export class RxPondDisposedError extends Error {
+  readonly name = 'RxPondDisposedError'
+
+  constructor(
+    /** The member of `RxPond` or `RxEventFn` that was used */
+    readonly operation: string,
+  ) {
+    super(`RxPond.${operation} cannot be used, the RxPond has been disposed`)
+  }
+}
+
+/** Textual representation of an optional query, as used in `RxPondErrorContext`. */
+export const describeWhere = (where?: Where<unknown>): string =>
+  where !== undefined ? where.toString() : 'allEvents'
+
+/** Textual representation of the tags attached to a number of events. */
+export const describeTaggedEvents = (
+  events: ReadonlyArray<TaggedEvent>,
+): string =>
+  Array.from(
+    new Set(events.map(e => e.tags.map(t => `'${t}'`).join(' & '))),
+  ).join(' | ')
+
+/**
+ * Create a function that wraps whatever the Pond reported as failure into an `RxPondError`.
+ */
+export const rxPondError = (
+  operation: RxPondOperation,
+  context: RxPondErrorContext = {},
+) => (cause: unknown): RxPondError => new RxPondError(operation, cause, context)
+
+/**
+ * Turn a Promise into an Observable that emits its value and completes,
+ * or errors with an `RxPondError` if the Promise is rejected.
+ * A rejection is never reported as unhandled, even if the Observable is not subscribed to.
+ */
+export const fromPromise = <T>(
+  promise: Promise<T>,
+  toError: (cause: unknown) => RxPondError,
+): Observable<T> => {
+  promise.catch(() => undefined)
+  return new Observable<T>(o => {
+    promise.then(
+      v => {
+        o.next(v)
+        o.complete()
+      },
+      err => o.error(toError(err)),
+    )
+  })
+}
@@ -0,0 +1,161 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Tag } from '@actyx/pond'
+import { RxPond } from '.'
+import { timer } from 'rxjs'
+import { map, take, tap, toArray } from 'rxjs/operators'
+
+const NumberTag = Tag<number>('number')
+
+const mkPondWithEvents = (count: number) => {
+  const pond = RxPond.test()
+  pond.directlyPushEvents(
+    Array.from({ length: count }, (_, i) => ({
+      tags: ['number'],
+      payload: i,
+    })),
+  )
+  return pond
+}
+
+describe('chunked queries', () => {
+  it('deliver all chunks', async () => {
+    const pond = mkPondWithEvents(10)
+
+    const chunks = await pond
+      .events()
+      .queryAllKnownChunked({ query: NumberTag }, 4)
+      .pipe(toArray())
+      .toPromise()
+    pond.dispose()
+
+    expect(chunks.map(c => c.events.map(e => e.payload))).toEqual([
+      [0, 1, 2, 3],
+      [4, 5, 6, 7],
+      [8, 9],
+    ])
+  })
+
+  it('stop delivering chunks on unsubscribe', async () => {
+    const pond = mkPondWithEvents(10)
+    const upperBound = await pond
+      .events()
+      .currentOffsets()
+      .toPromise()
+    let processed = 0
+
+    const first = await pond
+      .events()
+      .processKnownRangeChunked({ query: NumberTag, upperBound }, 2, chunk =>
+        timer(5).pipe(
+          map(() => {
+            processed += 1
+            return chunk.events.map(e => e.payload)
+          }),
+        ),
+      )
+      .pipe(take(1))
+      .toPromise()
+    await new Promise(res => setTimeout(res, 50))
+    pond.dispose()
+
+    expect(first).toEqual([0, 1])
+    expect(processed).toEqual(1)
+  })
+
+  it('request the next chunk only after the current one is processed', async () => {
+    const pond = mkPondWithEvents(6)
+    let inFlight = 0
+    let maxInFlight = 0
+
+    const results = await pond
+      .events()
+      .processAllKnownChunked({ query: NumberTag }, 2, chunk => {
+        inFlight += 1
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        return timer(5).pipe(
+          map(() => {
+            inFlight -= 1
+            return chunk.events.length
+          }),
+        )
+      })
+      .pipe(toArray())
+      .toPromise()
+    pond.dispose()
+
+    expect(results).toEqual([2, 2, 2])
+    expect(maxInFlight).toEqual(1)
+  })
+})
+
+describe('catchUpAndFollow', () => {
+  it('delivers known events, then a marker, then live events', async () => {
+    const pond = mkPondWithEvents(5)
+
+    const messages = await pond
+      .events()
+      .catchUpAndFollow({ query: NumberTag }, 2)
+      .pipe(
+        tap(m => {
+          if (m.type === 'caughtUp') {
+            pond.directlyPushEvents([
+              { tags: ['number'], payload: 5 },
+              { tags: ['number'], payload: 6 },
+            ])
+          }
+        }),
+        take(6),
+        toArray(),
+      )
+      .toPromise()
+    pond.dispose()
+
+    expect(
+      messages.map(m =>
+        m.type === 'chunk'
+          ? m.chunk.events.map(e => e.payload)
+          : m.type === 'event'
+          ? m.event.payload
+          : m.offsets,
+      ),
+    ).toEqual([[0, 1], [2, 3], [4], { 'TEST-REMOTE-0': 4 }, 5, 6])
+  })
+
+  it('follows from the lower bound if nothing is known yet', async () => {
+    const pond = mkPondWithEvents(3)
+
+    const messages = await pond
+      .events()
+      .catchUpAndFollow(
+        { query: NumberTag, lowerBound: { 'TEST-REMOTE-0': 2 } },
+        2,
+      )
+      .pipe(
+        tap(m => {
+          if (m.type === 'caughtUp') {
+            pond.directlyPushEvents([{ tags: ['number'], payload: 3 }])
+          }
+        }),
+        take(2),
+        toArray(),
+      )
+      .toPromise()
+    pond.dispose()
+
+    expect(messages.map(m => m.type)).toEqual(['caughtUp', 'event'])
+  })
+})
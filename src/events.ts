@@ -16,29 +16,71 @@
 import {
   ActyxEvent,
   AutoCappedQuery,
+  CancelSubscription,
   EarliestQuery,
   EventChunk,
   EventSubscription,
   Metadata,
   OffsetMap,
+  OnCompleteOrErr,
   Pond,
   RangeQuery,
   TaggedEvent,
   Where,
 } from '@actyx/pond'
-import { from, Observable } from 'rxjs'
+import { from, Observable, ObservableInput, Subscription } from 'rxjs'
+import { CatchUpMessage, mkCatchUpAndFollow } from './catchUp'
+import {
+  CheckpointedEvent,
+  CheckpointQuery,
+  CheckpointStore,
+  mkSubscribeFromCheckpoint,
+} from './checkpoint'
+import { DecodedEventFn, mkWithDecoders, PayloadDecoders } from './decoders'
+import {
+  describeTaggedEvents,
+  describeWhere,
+  fromPromise,
+  RxPondError,
+  rxPondError,
+} from './errors'
+import {
+  ImportOpts,
+  ImportProgress,
+  mkExportNdjson,
+  mkImportNdjson,
+  NdjsonSource,
+} from './ndjson'
 
+/** `RangeQuery` whose event type is derived from its `query`. */
+export type TypedRangeQuery<E> = Omit<RangeQuery, 'query'> & {
+  query?: Where<E>
+}
+
+/** `EventSubscription` whose event type is derived from its `query`. */
+export type TypedEventSubscription<E> = Omit<EventSubscription, 'query'> & {
+  query?: Where<E>
+}
+
+/**
+ * Functions related purely to events (no Fish).
+ * All returned Observables error with an `RxPondError` if the underlying operation fails.
+ */
 export type RxEventFn = {
   /** Get the current latest offsets known locally. */
   currentOffsets: () => Observable<OffsetMap>
   /**
    * Get all known events between the given offsets, in one array.
    *
+   * @typeParam E     - Type of the event payloads, as declared by the tags in the `query`.
+   *
    * @param query       - `RangeQuery` object specifying the desired set of events.
    *
    * @returns A Promise that resolves to the complete set of queries events.
    */
-  queryKnownRange: (query: RangeQuery) => Observable<ActyxEvent[]>
+  queryKnownRange: <E = unknown>(
+    query: TypedRangeQuery<E>,
+  ) => Observable<ActyxEvent<E>[]>
   /**
    * Get all known events between the given offsets, in chunks.
    * This is helpful if the result set is too large to fit into memory all at once.
@@ -48,12 +90,31 @@ export type RxEventFn = {
    * @param chunkSize   - Maximum size of chunks. Chunks may be smaller than this.
    * @param onChunk     - Callback that will be invoked with every chunk, in sequence.
    *
-   * @returns A Promise that resolves when all chunks have been delivered to the callback.
+   * @returns An Observable of chunks that completes after all chunks have been delivered.
+   *          The next chunk is only requested after the current one has been passed downstream.
+   *          Unsubscribing cancels the query.
    */
   queryKnownRangeChunked: (
     query: RangeQuery,
     chunkSize: number,
   ) => Observable<EventChunk>
+  /**
+   * Process all known events between the given offsets, chunk by chunk.
+   * The next chunk is only requested once processing of the current one has completed,
+   * so that arbitrarily large result sets can be worked through with bounded memory.
+   *
+   * @param query       - `RangeQuery` object specifying the desired set of events.
+   * @param chunkSize   - Maximum size of chunks. Chunks may be smaller than this.
+   * @param process     - Function that processes a chunk. Its results are emitted in order.
+   *
+   * @returns An Observable of all processing results that completes after all chunks have been processed.
+   *          Unsubscribing cancels the query as well as the processing of the current chunk.
+   */
+  processKnownRangeChunked: <R>(
+    query: RangeQuery,
+    chunkSize: number,
+    process: (chunk: EventChunk) => ObservableInput<R>,
+  ) => Observable<R>
   /**
    * Query all known events that occurred after the given `lowerBound`.
    *
@@ -71,23 +132,113 @@ export type RxEventFn = {
    * @param chunkSize   - Maximum size of chunks. Chunks may be smaller than this.
    * @param onChunk     - Callback that will be invoked for each chunk, in sequence. Second argument is an offset map covering all events passed as first arg.
    *
-   * @returns A `Promise` that resolves to updated offset-map after all chunks have been delivered.
+   * @returns An Observable of chunks that completes after all chunks have been delivered.
+   *          The next chunk is only requested after the current one has been passed downstream.
+   *          Unsubscribing cancels the query.
    */
   queryAllKnownChunked: (
     query: AutoCappedQuery,
     chunkSize: number,
   ) => Observable<EventChunk>
+  /**
+   * Process all known events that occurred after the given `lowerBound`, chunk by chunk.
+   * The next chunk is only requested once processing of the current one has completed,
+   * so that arbitrarily large result sets can be worked through with bounded memory.
+   *
+   * @param query       - `OpenEndedQuery` object specifying the desired set of events.
+   * @param chunkSize   - Maximum size of chunks. Chunks may be smaller than this.
+   * @param process     - Function that processes a chunk. Its results are emitted in order.
+   *
+   * @returns An Observable of all processing results that completes after all chunks have been processed.
+   *          Unsubscribing cancels the query as well as the processing of the current chunk.
+   */
+  processAllKnownChunked: <R>(
+    query: AutoCappedQuery,
+    chunkSize: number,
+    process: (chunk: EventChunk) => ObservableInput<R>,
+  ) => Observable<R>
   /**
    * Subscribe to all events fitting the `query` after `lowerBound`.
    *
    * The subscription goes on forever, until manually cancelled.
    *
+   * @typeParam E     - Type of the event payloads, as declared by the tags in the `query`.
+   *
    * @param query       - `EventSubscription` object specifying the desired set of events.
    * @param onEvent     - Callback that will be invoked for each event, in sequence.
    *
    * @returns A function that can be called in order to cancel the subscription.
    */
-  subscribe: (query: EventSubscription) => Observable<ActyxEvent>
+  subscribe: <E = unknown>(
+    query: TypedEventSubscription<E>,
+  ) => Observable<ActyxEvent<E>>
+  /**
+   * Subscribe to all events fitting the `query`, starting after the offsets saved in `store`.
+   *
+   * Every event comes with the offsets covering it and a function to acknowledge it.
+   * Acknowledging commits these offsets to the `store`, so that a subscription started
+   * later with the same store resumes right after the last acknowledged event.
+   *
+   * @param query       - `CheckpointQuery` object specifying the desired set of events.
+   * @param store       - `CheckpointStore` holding the offsets to resume from.
+   *
+   * @returns An Observable of checkpointed events. Errors if the store fails to load or save offsets.
+   */
+  subscribeFromCheckpoint: (
+    query: CheckpointQuery,
+    store: CheckpointStore,
+  ) => Observable<CheckpointedEvent>
+  /**
+   * Deliver all known events fitting the `query` after `lowerBound` in chunks, followed by a
+   * `caughtUp` marker, and then keep delivering live events as they become known.
+   * No event is skipped or delivered twice across the transition.
+   *
+   * @param query       - `EventSubscription` object specifying the desired set of events.
+   * @param chunkSize   - Maximum size of the chunks of known events. Chunks may be smaller than this.
+   *
+   * @returns An Observable of `CatchUpMessage`s that goes on forever, until unsubscribed.
+   */
+  catchUpAndFollow: (
+    query: EventSubscription,
+    chunkSize: number,
+  ) => Observable<CatchUpMessage>
+  /**
+   * Get event functions that check event payloads at runtime before handing them out.
+   * Events whose payload is rejected by a decoder are delivered to `invalid$` instead.
+   *
+   * @param decoders    - Decoders to apply to the payloads of events carrying the respective tag.
+   *
+   * @returns Event functions applying the `decoders`.
+   */
+  withDecoders: (decoders: PayloadDecoders) => DecodedEventFn
+  /**
+   * Export events as NDJSON, one line per event with its tags, payload and metadata.
+   * A `RangeQuery` is run with `queryKnownRangeChunked`, an `AutoCappedQuery` with `queryAllKnownChunked`.
+   * Use `Ndjson.toBlob` or `Ndjson.writeTo` to store the result.
+   *
+   * @param query       - `RangeQuery` or `AutoCappedQuery` object specifying the events to export.
+   * @param chunkSize   - Maximum number of events per emitted piece of text, 1000 by default.
+   *
+   * @returns An Observable of NDJSON text, one piece per chunk, that completes after the last event.
+   */
+  exportNdjson: (
+    query: RangeQuery | AutoCappedQuery,
+    chunkSize?: number,
+  ) => Observable<string>
+  /**
+   * Emit the events of an NDJSON export (see `exportNdjson`) again, in batches.
+   * The events get new metadata; the exported metadata is ignored.
+   *
+   * @param source      - The NDJSON text, a `Blob` or a Node.js `Readable`.
+   * @param opts        - Batch size, tag filtering and renaming, dry run.
+   *
+   * @returns An Observable of the progress after each batch, completing when all events have been emitted.
+   *          Errors with an `RxPondError` if a line cannot be parsed or the emission fails.
+   */
+  importNdjson: (
+    source: NdjsonSource,
+    opts?: ImportOpts,
+  ) => Observable<ImportProgress>
   /**
    * Observe always the **earliest** event matching the given query.
    * If there is an existing event fitting the query, `onNewEarliest` will be called with that event.
@@ -161,49 +312,159 @@ export type RxEventFn = {
   emit: (events: ReadonlyArray<TaggedEvent>) => Observable<Metadata[]>
 }
 
+/**
+ * Run a chunked query, handing each chunk to `process` and emitting its results.
+ * The next chunk is only requested once the Observable returned by `process` has completed.
+ * Unsubscribing cancels both the query and the processing of the current chunk.
+ */
+const processChunked = <R>(
+  runQuery: (
+    onChunk: (chunk: EventChunk) => Promise<void>,
+    onComplete: OnCompleteOrErr,
+  ) => CancelSubscription,
+  toError: (cause: unknown) => RxPondError,
+  process: (chunk: EventChunk) => ObservableInput<R>,
+): Observable<R> =>
+  new Observable<R>(o => {
+    let processing: Subscription | undefined = undefined
+    const cancel = runQuery(
+      chunk =>
+        new Promise<void>(resolve => {
+          processing = from(process(chunk)).subscribe(
+            r => o.next(r),
+            err => o.error(err),
+            resolve,
+          )
+        }),
+      err => (err !== undefined ? o.error(toError(err)) : o.complete()),
+    )
+    return () => {
+      cancel()
+      processing && processing.unsubscribe()
+    }
+  })
+
 export const mkEvents = (pond: Pond): RxEventFn => {
   const events = pond.events()
+
+  const queryAllKnownChunked = (
+    query: AutoCappedQuery,
+    chunkSize: number,
+  ): Observable<EventChunk> =>
+    processChunked(
+      (onChunk, onComplete) =>
+        events.queryAllKnownChunked(query, chunkSize, onChunk, onComplete),
+      rxPondError('queryAllKnownChunked', {
+        tags: describeWhere(query.query),
+      }),
+      chunk => [chunk],
+    )
+
+  const subscribe = <E>(
+    query: TypedEventSubscription<E>,
+  ): Observable<ActyxEvent<E>> =>
+    new Observable(o =>
+      events.subscribe(
+        query,
+        c => o.next(c as ActyxEvent<E>),
+        err =>
+          o.error(
+            rxPondError('subscribe', { tags: describeWhere(query.query) })(err),
+          ),
+      ),
+    )
+
+  const queryKnownRange = <E>(
+    query: TypedRangeQuery<E>,
+  ): Observable<ActyxEvent<E>[]> =>
+    fromPromise(
+      events.queryKnownRange(query) as Promise<ActyxEvent<E>[]>,
+      rxPondError('queryKnownRange', { tags: describeWhere(query.query) }),
+    )
+
+  const queryKnownRangeChunked = (
+    query: RangeQuery,
+    chunkSize: number,
+  ): Observable<EventChunk> =>
+    processChunked(
+      (onChunk, onComplete) =>
+        events.queryKnownRangeChunked(query, chunkSize, onChunk, onComplete),
+      rxPondError('queryKnownRangeChunked', {
+        tags: describeWhere(query.query),
+      }),
+      chunk => [chunk],
+    )
+
+  const emit = (e: ReadonlyArray<TaggedEvent>): Observable<Metadata[]> =>
+    fromPromise(
+      events.emit(e).toPromise(),
+      rxPondError('emit', { tags: describeTaggedEvents(e) }),
+    )
+
   return {
     currentOffsets: () =>
-      from(events.offsets().then(offsetResponse => offsetResponse.present)),
+      fromPromise(
+        events.offsets().then(offsetResponse => offsetResponse.present),
+        rxPondError('currentOffsets'),
+      ),
 
-    queryKnownRange: query => from(events.queryKnownRange(query)),
+    queryKnownRange,
 
-    queryKnownRangeChunked: (query, chunkSize) =>
-      new Observable(o => {
-        events.queryKnownRangeChunked(
-          query,
-          chunkSize,
-          c => o.next(c),
-          () => o.complete(),
-        )
-        // can't terminate query
-        return () => undefined
-      }),
+    queryKnownRangeChunked,
 
-    queryAllKnown: query => from(events.queryAllKnown(query)),
+    processKnownRangeChunked: (query, chunkSize, process) =>
+      processChunked(
+        (onChunk, onComplete) =>
+          events.queryKnownRangeChunked(query, chunkSize, onChunk, onComplete),
+        rxPondError('queryKnownRangeChunked', {
+          tags: describeWhere(query.query),
+        }),
+        process,
+      ),
 
-    queryAllKnownChunked: (query, chunkSize) =>
-      new Observable(o => {
-        events.queryAllKnownChunked(
-          query,
-          chunkSize,
-          c => o.next(c),
-          () => o.complete(),
-        )
-        // can't terminate query
-        return () => undefined
-      }),
+    queryAllKnown: query =>
+      fromPromise(
+        events.queryAllKnown(query),
+        rxPondError('queryAllKnown', { tags: describeWhere(query.query) }),
+      ),
 
-    subscribe: query =>
-      new Observable(o => events.subscribe(query, c => o.next(c))),
+    queryAllKnownChunked,
+
+    processAllKnownChunked: (query, chunkSize, process) =>
+      processChunked(
+        (onChunk, onComplete) =>
+          events.queryAllKnownChunked(query, chunkSize, onChunk, onComplete),
+        rxPondError('queryAllKnownChunked', {
+          tags: describeWhere(query.query),
+        }),
+        process,
+      ),
+
+    subscribe,
+
+    subscribeFromCheckpoint: mkSubscribeFromCheckpoint(subscribe),
+
+    catchUpAndFollow: mkCatchUpAndFollow(queryAllKnownChunked, subscribe),
+
+    withDecoders: mkWithDecoders(subscribe, queryKnownRange),
+
+    exportNdjson: mkExportNdjson(queryKnownRangeChunked, queryAllKnownChunked),
+
+    importNdjson: mkImportNdjson(emit),
 
     observeEarliest: <E>(
       query: EarliestQuery<E>,
     ): Observable<{ event: E; metadata: Metadata }> =>
       new Observable(o =>
-        events.observeEarliest(query, (event, metadata) =>
-          o.next({ event, metadata }),
+        events.observeEarliest(
+          query,
+          (event, metadata) => o.next({ event, metadata }),
+          err =>
+            o.error(
+              rxPondError('observeEarliest', {
+                tags: describeWhere(query.query),
+              })(err),
+            ),
         ),
       ),
 
@@ -211,8 +472,15 @@ export const mkEvents = (pond: Pond): RxEventFn => {
       query: EarliestQuery<E>,
     ): Observable<{ event: E; metadata: Metadata }> =>
       new Observable(o =>
-        events.observeLatest(query, (event, metadata) =>
-          o.next({ event, metadata }),
+        events.observeLatest(
+          query,
+          (event, metadata) => o.next({ event, metadata }),
+          err =>
+            o.error(
+              rxPondError('observeLatest', {
+                tags: describeWhere(query.query),
+              })(err),
+            ),
         ),
       ),
 
@@ -221,8 +489,16 @@ export const mkEvents = (pond: Pond): RxEventFn => {
       shouldReplace: (candidate: ActyxEvent<E>, cur: ActyxEvent<E>) => boolean,
     ): Observable<{ event: E; metadata: Metadata }> =>
       new Observable(o =>
-        events.observeBestMatch(query, shouldReplace, (event, metadata) =>
-          o.next({ event, metadata }),
+        events.observeBestMatch(
+          query,
+          shouldReplace,
+          (event, metadata) => o.next({ event, metadata }),
+          err =>
+            o.error(
+              rxPondError('observeBestMatch', { tags: describeWhere(query) })(
+                err,
+              ),
+            ),
         ),
       ),
 
@@ -232,12 +508,20 @@ export const mkEvents = (pond: Pond): RxEventFn => {
       initial: R,
     ): Observable<R> =>
       new Observable(o =>
-        events.observeUnorderedReduce(query, reduce, initial, state =>
-          o.next(state),
+        events.observeUnorderedReduce(
+          query,
+          reduce,
+          initial,
+          state => o.next(state),
+          err =>
+            o.error(
+              rxPondError('observeUnorderedReduce', {
+                tags: describeWhere(query),
+              })(err),
+            ),
         ),
       ),
 
-    emit: (e: ReadonlyArray<TaggedEvent>): Observable<Metadata[]> =>
-      from(events.emit(e).toPromise()),
+    emit,
   }
 }
@@ -0,0 +1,177 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Pond, Tag } from '@actyx/pond'
+import { FederatedEmitError, RxPond, RxPondError } from '.'
+import { throwError } from 'rxjs'
+import { take, toArray } from 'rxjs/operators'
+
+const MachineTag = Tag<string>('machine')
+const OrderTag = Tag<string>('order')
+
+const payloads = async (pond: RxPond) => {
+  const { events } = await pond
+    .events()
+    .queryAllKnown({})
+    .toPromise()
+  return events.map(e => e.payload)
+}
+
+const mkFederation = () => {
+  const plant = RxPond.test()
+  const office = RxPond.test()
+  const federation = RxPond.federate(
+    { plant, office },
+    { routes: [{ tags: ['machine'], pond: 'plant' }], defaultPond: 'office' },
+  )
+  return { plant, office, federation }
+}
+
+describe('federation', () => {
+  it('merges events of all members, annotated with their source', async () => {
+    const { plant, office, federation } = mkFederation()
+    plant.directlyPushEvents([{ tags: ['machine'], payload: 'started' }])
+    office.directlyPushEvents([{ tags: ['machine'], payload: 'planned' }])
+
+    const subscribed = await federation
+      .events()
+      .subscribe({ query: MachineTag })
+      .pipe(take(2), toArray())
+      .toPromise()
+    const chunks = await federation
+      .events()
+      .queryAllKnown({ query: MachineTag })
+      .pipe(toArray())
+      .toPromise()
+    const { upperBound } = chunks.find(c => c.source === 'plant') || chunks[0]
+    const afterPlant = await federation
+      .events()
+      .queryAllKnown({ query: MachineTag, lowerBound: { plant: upperBound } })
+      .pipe(toArray())
+      .toPromise()
+    await federation.dispose()
+
+    const bySource = (events: { source: string; payload: unknown }[]) =>
+      events.map(e => [e.source, e.payload]).sort()
+    expect(bySource(subscribed)).toEqual([
+      ['office', 'planned'],
+      ['plant', 'started'],
+    ])
+    expect(
+      bySource(
+        chunks.map(c => ({ source: c.source, payload: c.events[0].payload })),
+      ),
+    ).toEqual([
+      ['office', 'planned'],
+      ['plant', 'started'],
+    ])
+    expect(
+      afterPlant.map(c => [c.source, c.events.map(e => e.payload)]).sort(),
+    ).toEqual([
+      ['office', ['planned']],
+      ['plant', []],
+    ])
+  })
+
+  it('routes emissions by tags', async () => {
+    const { plant, office, federation } = mkFederation()
+
+    await federation.emit(MachineTag, 'started').toPromise()
+    const metadata = await federation
+      .events()
+      .emit([OrderTag.apply('o1'), MachineTag.apply('stopped')])
+      .toPromise()
+    const emitted = [await payloads(plant), await payloads(office)]
+    await federation.dispose()
+
+    expect(emitted).toEqual([['started', 'stopped'], ['o1']])
+    expect(metadata.map(m => m.tags)).toEqual([['order'], ['machine']])
+  })
+
+  it('fails emissions without a route', async () => {
+    const plant = RxPond.test()
+    const federation = RxPond.federate(
+      { plant },
+      { routes: [{ tags: ['machine'], pond: 'plant' }] },
+    )
+
+    const emission = federation.emit(OrderTag, 'o1').toPromise()
+    await expect(emission).rejects.toBeInstanceOf(RxPondError)
+    await expect(emission).rejects.toMatchObject({
+      operation: 'emit',
+      context: { tags: "'order'" },
+    })
+    await federation.dispose()
+  })
+
+  it('reports which members have persisted a partly failed emission', async () => {
+    const { plant, office, federation } = mkFederation()
+    const failure = new Error('office unavailable')
+    jest.spyOn(office, 'events').mockReturnValue({
+      ...office.events(),
+      emit: () => throwError(failure),
+    })
+
+    const err = await federation
+      .events()
+      .emit([OrderTag.apply('o1'), MachineTag.apply('started')])
+      .toPromise()
+      .catch(e => e)
+    const emitted = await payloads(plant)
+    await federation.dispose()
+
+    expect(err).toBeInstanceOf(RxPondError)
+    expect(err.cause).toBeInstanceOf(FederatedEmitError)
+    expect(Object.keys(err.cause.succeeded)).toEqual(['plant'])
+    expect(err.cause.failed).toEqual({ office: failure })
+    expect(emitted).toEqual(['started'])
+  })
+
+  it('combines the states and the swarm sync of all members', async () => {
+    const completeSync: Record<string, () => void> = {}
+    const mkMember = (name: string) => {
+      const pond = Pond.test()
+      jest.spyOn(pond, 'waitForSwarmSync').mockImplementation(config => {
+        completeSync[name] = () => config.onSyncComplete()
+      })
+      return RxPond.from(pond)
+    }
+    const federation = RxPond.federate({
+      plant: mkMember('plant'),
+      office: mkMember('office'),
+    })
+
+    const state = await federation
+      .getPondState()
+      .pipe(take(1))
+      .toPromise()
+    const sync = federation
+      .waitForSwarmSync()
+      .pipe(toArray())
+      .toPromise()
+    completeSync.plant()
+    completeSync.office()
+    const progress = await sync
+    await federation.dispose()
+
+    expect(Object.keys(state.members).sort()).toEqual(['office', 'plant'])
+    expect(state.busy).toEqual(false)
+    expect(progress.map(p => p.synced)).toEqual([false, true])
+    expect(progress[progress.length - 1].members).toEqual({
+      plant: undefined,
+      office: undefined,
+    })
+  })
+})
@@ -0,0 +1,380 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  ActyxEvent,
+  AutoCappedQuery,
+  EventChunk,
+  Metadata,
+  OffsetMap,
+  PondState,
+  SplashState,
+  TaggedEvent,
+  Tags,
+} from '@actyx/pond'
+import {
+  combineLatest,
+  concat,
+  forkJoin,
+  merge,
+  Observable,
+  of,
+  throwError,
+} from 'rxjs'
+import { catchError, map, mergeMap, scan } from 'rxjs/operators'
+import { describeTaggedEvents, RxPondError } from './errors'
+import { TypedEventSubscription } from './events'
+import { RxPond } from './index'
+
+/** Offsets per member of a federation, keyed by the member’s name. */
+export type FederatedOffsets = Readonly<Record<string, OffsetMap>>
+
+/** Subscription to the events of all members of a federation. */
+export type FederatedSubscription<E> = Omit<
+  TypedEventSubscription<E>,
+  'lowerBound'
+> & {
+  /** Starting point per member; members not listed are delivered in full. */
+  lowerBound?: FederatedOffsets
+}
+
+/** Query of all known events of all members of a federation. */
+export type FederatedQuery = Omit<AutoCappedQuery, 'lowerBound'> & {
+  /** Starting point per member; members not listed are delivered in full. */
+  lowerBound?: FederatedOffsets
+}
+
+/** An event, annotated with the name of the member it was obtained from. */
+export type SourcedEvent<E> = ActyxEvent<E> & Readonly<{ source: string }>
+
+/** A chunk of events, annotated with the name of the member it was obtained from. */
+export type SourcedEventChunk = EventChunk & Readonly<{ source: string }>
+
+/** Route emissions carrying all of the given `tags` to the member named `pond`. */
+export type EmitRoute = Readonly<{
+  tags: ReadonlyArray<string>
+  pond: string
+}>
+
+/** Options for `RxPond.federate`. */
+export type FederationOpts = Readonly<{
+  /** Routes for emissions; the first one matching an event applies. */
+  routes?: ReadonlyArray<EmitRoute>
+  /** Member to emit events to that no route matches. Without it, such emissions fail. */
+  defaultPond?: string
+}>
+
+/** State of all members of a federation. */
+export type FederatedPondState = Readonly<{
+  /** State of each member. */
+  members: Readonly<Record<string, PondState>>
+  /** Some member is hydrating Fish. */
+  hydrating: boolean
+  /** Some member is applying state effects. */
+  processingCommands: boolean
+  /** Some member is applying events from other nodes. */
+  processingEvents: boolean
+  /** Any of the above. */
+  busy: boolean
+}>
+
+/** Progress of the swarm sync of all members of a federation. */
+export type FederatedSyncState = Readonly<{
+  /** Progress of each member that has reported yet; `undefined` once it has synced. */
+  members: Readonly<Record<string, SplashState | undefined>>
+  /** Whether all members have synced. */
+  synced: boolean
+}>
+
+/** Event functions spanning all members of a federation. */
+export type FederatedEventFn = Readonly<{
+  /**
+   * Subscribe to the events matching `query` of all members, as they arrive at each of them.
+   *
+   * @returns An Observable of events annotated with their member that goes on forever, until unsubscribed.
+   */
+  subscribe: <E = unknown>(
+    query: FederatedSubscription<E>,
+  ) => Observable<SourcedEvent<E>>
+  /**
+   * Query all known events matching `query` of all members.
+   *
+   * @returns An Observable emitting one chunk per member, in the order they arrive, and completing
+   *          after the last one. Each `upperBound` belongs to the chunk’s member.
+   */
+  queryAllKnown: (query: FederatedQuery) => Observable<SourcedEventChunk>
+  /**
+   * Emit events, each to the member chosen by the routes of the federation.
+   *
+   * Events routed to different members are emitted separately to each of them, which is not atomic:
+   * if some members fail, the events routed to the others are persisted nevertheless.
+   *
+   * @returns An Observable of the metadata of the events, in the given order.
+   *          Errors with an `RxPondError` if no member is routed to for some event, without emitting
+   *          anything, or if some members fail, with a `FederatedEmitError` as `cause` telling which
+   *          members have succeeded.
+   */
+  emit: (events: ReadonlyArray<TaggedEvent>) => Observable<Metadata[]>
+}>
+
+/**
+ * One facade over several `RxPond`s, e.g. of different app identities or nodes.
+ * It is not an `RxPond` itself: Fish cannot be observed or run across members, so there is no
+ * `observe`, `run` or `dispatch`; use the members for that.
+ */
+export type FederatedRxPond = Readonly<{
+  /** The members, keyed by name. */
+  members: Readonly<Record<string, RxPond>>
+  /**
+   * Emit an event to the member chosen by the routes of the federation.
+   *
+   * @returns An Observable that emits `undefined` and completes once the event has been persisted.
+   *          Errors with an `RxPondError` if no member is routed to.
+   */
+  emit: <E>(tags: Tags<E>, event: E) => Observable<undefined>
+  /** Get the event functions spanning all members. */
+  events: () => FederatedEventFn
+  /** The states of all members, combined. Emits whenever one of them changes. */
+  getPondState: () => Observable<FederatedPondState>
+  /** Progress of the swarm sync of all members, completing once all of them have synced. */
+  waitForSwarmSync: () => Observable<FederatedSyncState>
+  /** Dispose of all members. */
+  dispose: () => Promise<void>
+}>
+
+/**
+ * Cause of the `RxPondError` of a federated emission that failed for some of the members involved.
+ * The events routed to the members that succeeded have been persisted.
+ */
+export class FederatedEmitError extends Error {
+  readonly name = 'FederatedEmitError'
+
+  constructor(
+    /** Metadata of the events persisted by each member that succeeded, in the order they were given */
+    readonly succeeded: Readonly<Record<string, Metadata[]>>,
+    /** Error of each member that failed */
+    readonly failed: Readonly<Record<string, unknown>>,
+  ) {
+    super(
+      `emission failed for ${Object.keys(failed).join(', ')}, ` +
+        `succeeded for ${Object.keys(succeeded).join(', ') || 'none'}`,
+    )
+  }
+}
+
+type MemberEmission = Readonly<{ name: string; at: number[] }> &
+  (
+    | Readonly<{ type: 'succeeded'; metadata: Metadata[] }>
+    | Readonly<{ type: 'failed'; error: unknown }>
+  )
+
+const matches = (route: EmitRoute, event: TaggedEvent) =>
+  route.tags.every(tag => event.tags.includes(tag))
+
+const combineStates = (
+  members: Record<string, PondState>,
+): FederatedPondState => {
+  const states = Object.values(members)
+  const hydrating = states.some(PondState.isHydrating)
+  const processingCommands = states.some(PondState.isProcessingCommands)
+  const processingEvents = states.some(
+    PondState.isProcessingEventsFromOtherSources,
+  )
+  return {
+    members,
+    hydrating,
+    processingCommands,
+    processingEvents,
+    busy: hydrating || processingCommands || processingEvents,
+  }
+}
+
+/**
+ * Create a `FederatedRxPond` over `members`, keyed by name.
+ */
+export const federate = (
+  members: Readonly<Record<string, RxPond>>,
+  opts: FederationOpts = {},
+): FederatedRxPond => {
+  const { routes = [], defaultPond } = opts
+  const names = Object.keys(members)
+
+  const routeOf = (event: TaggedEvent): string | undefined => {
+    const route = routes.find(r => matches(r, event))
+    return route !== undefined ? route.pond : defaultPond
+  }
+
+  const emit = (events: ReadonlyArray<TaggedEvent>): Observable<Metadata[]> =>
+    new Observable<Metadata[]>(o => {
+      // Group by member, remembering the positions to restore the order of the metadata.
+      const groups: Record<string, { events: TaggedEvent[]; at: number[] }> = {}
+      for (const [i, event] of events.entries()) {
+        const name = routeOf(event)
+        if (name === undefined || members[name] === undefined) {
+          o.error(
+            new RxPondError(
+              'emit',
+              new Error(
+                name === undefined
+                  ? 'no member is routed to'
+                  : `no member named ${name}`,
+              ),
+              { tags: describeTaggedEvents([event]) },
+            ),
+          )
+          return
+        }
+        const group = groups[name] || (groups[name] = { events: [], at: [] })
+        group.events.push(event)
+        group.at.push(i)
+      }
+      // Members are emitted to independently, so that all of them are heard from on failure.
+      const emissions = Object.entries(groups).map(([name, group]) =>
+        members[name]
+          .events()
+          .emit(group.events)
+          .pipe(
+            map(
+              (metadata): MemberEmission => ({
+                type: 'succeeded',
+                name,
+                at: group.at,
+                metadata,
+              }),
+            ),
+            catchError(error =>
+              of<MemberEmission>({
+                type: 'failed',
+                name,
+                at: group.at,
+                error,
+              }),
+            ),
+          ),
+      )
+      return (emissions.length > 0 ? forkJoin(emissions) : of([]))
+        .pipe(
+          mergeMap(results => {
+            const succeeded: Record<string, Metadata[]> = {}
+            const failed: Record<string, unknown> = {}
+            const metadata: Metadata[] = new Array(events.length)
+            results.forEach(result => {
+              if (result.type === 'failed') {
+                failed[result.name] = result.error
+                return
+              }
+              succeeded[result.name] = result.metadata
+              result.at.forEach((at, i) => (metadata[at] = result.metadata[i]))
+            })
+            return Object.keys(failed).length === 0
+              ? of(metadata)
+              : throwError(
+                  new RxPondError(
+                    'emit',
+                    new FederatedEmitError(succeeded, failed),
+                    { tags: describeTaggedEvents(events) },
+                  ),
+                )
+          }),
+        )
+        .subscribe(o)
+    })
+
+  const events: FederatedEventFn = {
+    subscribe: <E>(query: FederatedSubscription<E>) =>
+      merge(
+        ...names.map(source =>
+          members[source]
+            .events()
+            .subscribe<E>({
+              ...query,
+              lowerBound: query.lowerBound && query.lowerBound[source],
+            })
+            .pipe(map((event): SourcedEvent<E> => ({ ...event, source }))),
+        ),
+      ),
+
+    queryAllKnown: query =>
+      merge(
+        ...names.map(source =>
+          members[source]
+            .events()
+            .queryAllKnown({
+              ...query,
+              lowerBound: query.lowerBound && query.lowerBound[source],
+            })
+            .pipe(map((chunk): SourcedEventChunk => ({ ...chunk, source }))),
+        ),
+      ),
+
+    emit,
+  }
+
+  return {
+    members,
+
+    emit: (tags, event) => emit([tags.apply(event)]).pipe(map(() => undefined)),
+
+    events: () => events,
+
+    getPondState: () =>
+      combineLatest(
+        names.map(name =>
+          members[name].getPondState().pipe(map(state => ({ name, state }))),
+        ),
+      ).pipe(
+        map(states =>
+          combineStates(
+            states.reduce<Record<string, PondState>>(
+              (acc, { name, state }) => ({ ...acc, [name]: state }),
+              {},
+            ),
+          ),
+        ),
+      ),
+
+    waitForSwarmSync: () =>
+      merge(
+        ...names.map(name =>
+          concat(
+            members[name]
+              .waitForSwarmSync()
+              .pipe(
+                map(sync => ({ name, sync: sync as SplashState | undefined })),
+              ),
+            of({ name, sync: undefined }),
+          ),
+        ),
+      ).pipe(
+        scan(
+          (acc: FederatedSyncState, { name, sync }) => {
+            const progress = { ...acc.members, [name]: sync }
+            return {
+              members: progress,
+              synced: names.every(
+                n => n in progress && progress[n] === undefined,
+              ),
+            }
+          },
+          { members: {}, synced: names.length === 0 },
+        ),
+      ),
+
+    dispose: () =>
+      Promise.all(names.map(name => members[name].dispose())).then(
+        () => undefined,
+      ),
+  }
+}
@@ -0,0 +1,119 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Fish, FishId, Pond, Tag } from '@actyx/pond'
+import { RxPond } from '.'
+import { first } from 'rxjs/operators'
+
+const NumberTag = Tag<number>('number')
+const mkFish = (name: string): Fish<number, number> => ({
+  fishId: FishId.of('SumFish', name, 1),
+  initialState: 0,
+  onEvent: (state, e) => state + e,
+  where: NumberTag,
+})
+
+describe('health$', () => {
+  it('counts events emitted directly and by state effects', async () => {
+    const pond = RxPond.test()
+    await pond.emit(NumberTag, 1).toPromise()
+    await pond
+      .run(mkFish('a'), (_, enqueue) => {
+        enqueue(NumberTag, 2)
+        enqueue(NumberTag, 3)
+      })
+      .toPromise()
+    await pond
+      .events()
+      .emit([NumberTag.apply(4)])
+      .toPromise()
+
+    const health = await pond.health$
+      .pipe(first(h => h.emittedEvents === 4))
+      .toPromise()
+    pond.dispose()
+    expect(health).toMatchObject({ emittedEvents: 4 })
+  })
+
+  it('counts distinct observed Fish', async () => {
+    const pond = RxPond.test()
+    const subs = [
+      pond.observe(mkFish('a')).subscribe(),
+      pond.observe(mkFish('a')).subscribe(),
+      pond.observe(mkFish('b')).subscribe(),
+    ]
+    const active = await pond.health$.pipe(first()).toPromise()
+    subs.forEach(sub => sub.unsubscribe())
+    const inactive = await pond.health$.pipe(first()).toPromise()
+    pond.dispose()
+
+    expect(active.activeFish).toEqual(2)
+    expect(inactive.activeFish).toEqual(0)
+  })
+
+  it('counts the Fish created by observeOne and observeAll', async () => {
+    const SeedTag = Tag<string>('seed')
+    const pond = RxPond.test()
+    pond.directlyPushEvents([
+      { tags: ['seed'], payload: 'a' },
+      { tags: ['seed'], payload: 'b' },
+    ])
+    const subs = [
+      pond.observeOne(SeedTag, mkFish).subscribe(),
+      pond.observeAll(SeedTag, mkFish, {}).subscribe(),
+    ]
+    const active = await pond.health$
+      .pipe(first(h => h.activeFish === 2))
+      .toPromise()
+    subs.forEach(sub => sub.unsubscribe())
+    const inactive = await pond.health$.pipe(first()).toPromise()
+    pond.dispose()
+
+    expect(active.activeFish).toEqual(2)
+    expect(inactive.activeFish).toEqual(0)
+  })
+
+  it('reports an idle pond', async () => {
+    const pond = RxPond.test()
+    const health = await pond.health$.pipe(first()).toPromise()
+    pond.dispose()
+    expect(health).toEqual({
+      hydrating: false,
+      processingCommands: false,
+      processingEvents: false,
+      busy: false,
+      emittedEvents: 0,
+      activeFish: 0,
+    })
+  })
+
+  it('cancels the registration with the Pond on unsubscribe', async () => {
+    const testPond = Pond.test()
+    const cancel = jest.fn()
+    const getPondState = testPond.getPondState
+    jest.spyOn(testPond, 'getPondState').mockImplementation(callback => {
+      const cancelOriginal = getPondState(callback)
+      return () => {
+        cancel()
+        cancelOriginal()
+      }
+    })
+    const pond = RxPond.from(testPond)
+
+    await pond.health$.pipe(first()).toPromise()
+    pond.dispose()
+    expect(cancel).toHaveBeenCalledTimes(1)
+  })
+})
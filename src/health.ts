@@ -0,0 +1,302 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  AddEmission,
+  CancelSubscription,
+  Fish,
+  FishId,
+  Metadata,
+  Pond,
+  PondState,
+  StateEffect,
+  TaggedEvent,
+  Tags,
+} from '@actyx/pond'
+import { BehaviorSubject, combineLatest, Observable } from 'rxjs'
+import { distinctUntilChanged, map } from 'rxjs/operators'
+
+/** Activity counters of an `RxPond`. */
+export type HealthCounters = Readonly<{
+  /** Number of events emitted through the `RxPond`, directly or by state effects. */
+  emittedEvents: number
+  /**
+   * Number of distinct Fish currently observed through the `RxPond`, by `observe` and its variants,
+   * as well as the Fish created by `observeOne` and `observeAll` for the seed events seen so far.
+   */
+  activeFish: number
+}>
+
+/** Health of an `RxPond`, derived from its `PondState` and its activity. */
+export type PondHealth = HealthCounters &
+  Readonly<{
+    /** Some Fish are being hydrated. */
+    hydrating: boolean
+    /** Some state effects are being applied. */
+    processingCommands: boolean
+    /** Some Fish are applying events from other nodes. */
+    processingEvents: boolean
+    /** Any of the above; not busy means idle. */
+    busy: boolean
+  }>
+
+/** A Pond counting emitted events and observed Fish. */
+export type InstrumentedPond = Pond &
+  Readonly<{
+    /** The Pond without instrumentation. */
+    original: Pond
+    counters$: Observable<HealthCounters>
+  }>
+
+const noop = () => undefined
+
+const isTaggedEvents = (
+  events: TaggedEvent | ReadonlyArray<TaggedEvent>,
+): events is ReadonlyArray<TaggedEvent> => Array.isArray(events)
+
+const sameHealth = (a: PondHealth, b: PondHealth) =>
+  a.hydrating === b.hydrating &&
+  a.processingCommands === b.processingCommands &&
+  a.processingEvents === b.processingEvents &&
+  a.busy === b.busy &&
+  a.emittedEvents === b.emittedEvents &&
+  a.activeFish === b.activeFish
+
+/**
+ * Wrap the given Pond to count the events emitted and the Fish observed through it.
+ * Events enqueued by state effects are counted once the effect’s emission has completed,
+ * except for `keepRunning`, whose emissions cannot be tracked, so they are counted when enqueued.
+ */
+export const instrumentPond = (pond: Pond): InstrumentedPond => {
+  const counters$ = new BehaviorSubject<HealthCounters>({
+    emittedEvents: 0,
+    activeFish: 0,
+  })
+  const observers: Record<string, number> = {}
+
+  const emitted = (count: number) => {
+    if (count > 0) {
+      const counters = counters$.getValue()
+      counters$.next({
+        ...counters,
+        emittedEvents: counters.emittedEvents + count,
+      })
+    }
+  }
+
+  const observed = (fishId: FishId): CancelSubscription => {
+    const key = FishId.canonical(fishId)
+    observers[key] = (observers[key] || 0) + 1
+    counters$.next({
+      ...counters$.getValue(),
+      activeFish: Object.keys(observers).length,
+    })
+    let released = false
+    return () => {
+      if (released) {
+        return
+      }
+      released = true
+      observers[key] -= 1
+      if (observers[key] === 0) {
+        delete observers[key]
+      }
+      counters$.next({
+        ...counters$.getValue(),
+        activeFish: Object.keys(observers).length,
+      })
+    }
+  }
+
+  /**
+   * Wrap `makeFish` of `observeOne` or `observeAll` to count the Fish it creates as observed
+   * until `release` is called; the same Fish may be created several times for one subscription.
+   */
+  const observedMade = <ESeed, F extends Fish<any, any> | undefined>(
+    makeFish: (seedEvent: ESeed) => F,
+  ) => {
+    const releases: Record<string, CancelSubscription> = {}
+    let released = false
+    return {
+      makeFish: (seedEvent: ESeed): F => {
+        const fish = makeFish(seedEvent)
+        if (fish && !released) {
+          const key = FishId.canonical(fish.fishId)
+          releases[key] = releases[key] || observed(fish.fishId)
+        }
+        return fish
+      },
+      release: () => {
+        released = true
+        Object.keys(releases).forEach(key => releases[key]())
+      },
+    }
+  }
+
+  /** Overloaded like `Pond.publish`, counting the published events. */
+  function publish(event: TaggedEvent): Promise<Metadata>
+  function publish(events: ReadonlyArray<TaggedEvent>): Promise<Metadata[]>
+  function publish(
+    events: TaggedEvent | ReadonlyArray<TaggedEvent>,
+  ): Promise<Metadata | Metadata[]> {
+    return isTaggedEvents(events)
+      ? pond.publish(events).then(metadata => {
+          emitted(metadata.length)
+          return metadata
+        })
+      : pond.publish(events).then(metadata => {
+          emitted(1)
+          return metadata
+        })
+  }
+
+  /** Count the events enqueued by `fn`, reporting them to `onEnqueued` after each invocation. */
+  const counting = <S, EWrite>(
+    fn: StateEffect<S, EWrite>,
+    onEnqueued: (count: number) => void,
+  ): StateEffect<S, EWrite> => async (state, enqueue, p) => {
+    let count = 0
+    const countingEnqueue: AddEmission<EWrite> = (...args) => {
+      count += 1
+      enqueue(...args)
+    }
+    await fn(state, countingEnqueue, p)
+    onEnqueued(count)
+  }
+
+  // Delegating explicitly rather than spreading, so that the Pond may still be patched later on.
+  return {
+    emit: <E>(tags: Tags<E>, event: E) => {
+      const pending = pond.emit(tags, event)
+      pending.toPromise().then(metadata => emitted(metadata.length), noop)
+      return pending
+    },
+
+    publish,
+
+    observe: <S, E>(
+      fish: Fish<S, E>,
+      callback: (newState: S) => void,
+      stoppedByError?: (err: unknown) => void,
+    ) => {
+      const release = observed(fish.fishId)
+      const cancel = pond.observe(fish, callback, err => {
+        release()
+        stoppedByError && stoppedByError(err)
+      })
+      return () => {
+        cancel()
+        release()
+      }
+    },
+
+    currentState: fish => pond.currentState(fish),
+
+    observeAll: (seedEventsSelector, makeFish, opts, callback) => {
+      const made = observedMade(makeFish)
+      const cancel = pond.observeAll(
+        seedEventsSelector,
+        made.makeFish,
+        opts,
+        callback,
+      )
+      return () => {
+        cancel()
+        made.release()
+      }
+    },
+
+    observeOne: (seedEventSelector, makeFish, callback, stoppedByError) => {
+      const made = observedMade(makeFish)
+      const cancel = pond.observeOne(
+        seedEventSelector,
+        made.makeFish,
+        callback,
+        err => {
+          made.release()
+          stoppedByError && stoppedByError(err)
+        },
+      )
+      return () => {
+        cancel()
+        made.release()
+      }
+    },
+
+    run: <S, EWrite>(fish: Fish<S, any>, fn: StateEffect<S, EWrite>) => {
+      let enqueued = 0
+      const pending = pond.run(
+        fish,
+        counting(fn, count => (enqueued = count)),
+      )
+      pending.toPromise().then(() => emitted(enqueued), noop)
+      return pending
+    },
+
+    keepRunning: <S, EWrite>(
+      fish: Fish<S, any>,
+      fn: StateEffect<S, EWrite>,
+      autoCancel?: (state: S) => boolean,
+    ) => pond.keepRunning(fish, counting(fn, emitted), autoCancel),
+
+    events: () => {
+      const events = pond.events()
+      return {
+        ...events,
+        emit: taggedEvents => {
+          const pending = events.emit(taggedEvents)
+          pending.toPromise().then(metadata => emitted(metadata.length), noop)
+          return pending
+        },
+      }
+    },
+
+    dispose: () => {
+      counters$.complete()
+      pond.dispose()
+    },
+
+    info: () => pond.info(),
+
+    getPondState: callback => pond.getPondState(callback),
+
+    waitForSwarmSync: params => pond.waitForSwarmSync(params),
+
+    original: pond,
+    counters$: counters$.pipe(distinctUntilChanged()),
+  }
+}
+
+/**
+ * Create the `health$` Observable of an `RxPond`.
+ * Emits only when one of the flags or counters has changed.
+ */
+export const mkHealth$ = (pond: InstrumentedPond): Observable<PondHealth> =>
+  combineLatest([
+    new Observable<PondState>(o => {
+      const cancel = pond.getPondState(state => o.next(state))
+      return () => cancel()
+    }),
+    pond.counters$,
+  ]).pipe(
+    map(([state, counters]) => ({
+      hydrating: PondState.isHydrating(state),
+      processingCommands: PondState.isProcessingCommands(state),
+      processingEvents: PondState.isProcessingEventsFromOtherSources(state),
+      busy: PondState.isBusy(state),
+      ...counters,
+    })),
+    distinctUntilChanged(sameHealth),
+  )
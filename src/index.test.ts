@@ -14,10 +14,8 @@
  * limitations under the License.
  */
 import { Fish, FishId, Tag, Tags } from '@actyx/pond'
-import { RxPond } from '.'
-import { finalize, tap, toArray } from 'rxjs/operators'
-
-const sleep = (ms: number) => new Promise(res => setTimeout(res, ms))
+import { RxPond, RxPondError } from '.'
+import { finalize, first, take, tap, toArray } from 'rxjs/operators'
 
 const mkForTest = async (): Promise<[
   RxPond,
@@ -25,11 +23,7 @@ const mkForTest = async (): Promise<[
   Fish<string, string>,
   () => Promise<void>,
 ]> => {
-  const pond = await RxPond.default({
-    appId: 'com.example.test',
-    displayName: 'My test app',
-    version: '0.0.1',
-  })
+  const pond = RxPond.test()
 
   const MyTag = Tag<string>(`myTag+${Date.now()}+${Math.random()}`)
   const MyFish: Fish<string, string> = {
@@ -39,10 +33,7 @@ const mkForTest = async (): Promise<[
     where: MyTag,
   }
 
-  const cleanup = async () => {
-    pond.dispose()
-    await sleep(1_000)
-  }
+  const cleanup = () => pond.dispose()
   return [pond, MyTag, MyFish, cleanup]
 }
 
@@ -73,3 +64,174 @@ describe('rx-pond', () => {
     expect(res).toEqual([undefined])
   })
 })
+
+describe('in-memory rx-pond', () => {
+  const MyTag = Tag<string>('myTag')
+  const MyFish: Fish<string[], string> = {
+    fishId: FishId.of('MyFish', 'Fish1', 1),
+    initialState: [],
+    onEvent: (state, e) => [...state, e],
+    where: MyTag,
+  }
+
+  it('aggregates injected and emitted events', async () => {
+    const pond = RxPond.test()
+    pond.directlyPushEvents([{ tags: ['myTag'], payload: 'remote' }])
+    await pond.emit(MyTag, 'local').toPromise()
+
+    const state = await pond
+      .observe(MyFish)
+      .pipe(first())
+      .toPromise()
+    pond.dispose()
+    expect(state).toEqual(['remote', 'local'])
+  })
+
+  it('fills in stream, offsets and lamports of injected events', async () => {
+    const pond = RxPond.test()
+    pond.directlyPushEvents([
+      { tags: ['myTag'], payload: 'a' },
+      { tags: ['myTag'], payload: 'b', stream: 'other', timestamp: 42 },
+      { tags: ['myTag'], payload: 'c' },
+    ])
+
+    const { events } = await pond
+      .events()
+      .queryAllKnown({ query: MyTag })
+      .toPromise()
+    pond.dispose()
+    expect(
+      events.map(({ meta }) => [
+        meta.stream,
+        meta.offset,
+        meta.lamport,
+        meta.timestampMicros === 42,
+      ]),
+    ).toEqual([
+      ['TEST-REMOTE-0', 0, 1, false],
+      ['other', 0, 2, true],
+      ['TEST-REMOTE-0', 1, 3, false],
+    ])
+  })
+
+  it('observes all Fish created from seed events', async () => {
+    const pond = RxPond.inMemory()
+    const SeedTag = Tag<string>('seed')
+    const mkFish = (id: string): Fish<string[], string> => ({
+      ...MyFish,
+      fishId: FishId.of('MyFish', id, 1),
+      where: MyTag.withId(id),
+    })
+    pond.directlyPushEvents([
+      { tags: ['seed'], payload: 'a' },
+      { tags: ['seed'], payload: 'b' },
+      { tags: ['myTag', 'myTag:a'], payload: 'a1' },
+    ])
+
+    const states = await pond
+      .observeAll(SeedTag, mkFish, {})
+      .pipe(first(x => x.length === 2))
+      .toPromise()
+    pond.dispose()
+    expect(states).toEqual([['a1'], []])
+  })
+
+  it('runs state effects against the in-memory store', async () => {
+    const pond = RxPond.test()
+    await pond
+      .run(MyFish, (state, enqueue) => enqueue(MyTag, `${state.length}`))
+      .toPromise()
+    await pond
+      .run(MyFish, (state, enqueue) => enqueue(MyTag, `${state.length}`))
+      .toPromise()
+
+    const state = await pond
+      .observe(MyFish)
+      .pipe(first())
+      .toPromise()
+    pond.dispose()
+    expect(state).toEqual(['0', '1'])
+  })
+
+  it('delivers live events to subscriptions', async () => {
+    const pond = RxPond.test()
+    const received = pond
+      .events()
+      .subscribe({ query: MyTag })
+      .pipe(take(2), toArray())
+      .toPromise()
+
+    pond.directlyPushEvents([
+      { tags: ['myTag'], payload: 'a' },
+      { tags: ['myTag'], payload: 'b' },
+    ])
+    const events = await received
+    pond.dispose()
+    expect(events.map(e => e.payload)).toEqual(['a', 'b'])
+  })
+})
+
+describe('rx-pond errors', () => {
+  const MyTag = Tag<string>('myTag')
+  const FailingFish: Fish<string, string> = {
+    fishId: FishId.of('FailingFish', 'Fish1', 1),
+    initialState: '',
+    onEvent: (_, e) => {
+      if (e === 'boom') {
+        throw new Error('cannot handle boom')
+      }
+      return e
+    },
+    where: MyTag,
+  }
+
+  it('errors observe when onEvent throws', async () => {
+    const pond = RxPond.test()
+    pond.directlyPushEvents([{ tags: ['myTag'], payload: 'boom' }])
+
+    const err = await pond
+      .observe(FailingFish)
+      .toPromise()
+      .catch(e => e)
+    pond.dispose()
+    expect(err).toBeInstanceOf(RxPondError)
+    expect(err.operation).toEqual('observe')
+    expect(err.context.fishId).toEqual(FailingFish.fishId)
+    expect(err.message).toMatch(/FailingFish.*cannot handle boom/)
+  })
+
+  it('errors run when the effect throws', async () => {
+    const pond = RxPond.test()
+
+    const err = await pond
+      .run(FailingFish, () => {
+        throw new Error('invalid command')
+      })
+      .toPromise()
+      .catch(e => e)
+    pond.dispose()
+    expect(err).toBeInstanceOf(RxPondError)
+    expect(err.operation).toEqual('run')
+    expect(err.cause).toEqual(new Error('invalid command'))
+  })
+
+  it('errors observeAll when makeFish throws', async () => {
+    const pond = RxPond.test()
+    pond.directlyPushEvents([{ tags: ['seed'], payload: 'a' }])
+
+    const err = await pond
+      .observeAll(
+        Tag<string>('seed'),
+        () => {
+          throw new Error('no fish')
+        },
+        {},
+      )
+      .toPromise()
+      .catch(e => e)
+    pond.dispose()
+    expect(err).toBeInstanceOf(RxPondError)
+    expect(err.operation).toEqual('observeAll')
+    expect(err.context.tags).toEqual("'seed'")
+  })
+})
@@ -17,6 +17,7 @@ import {
   AppManifest,
   CancelSubscription,
   Fish,
+  FishId,
   ObserveAllOpts,
   Pond,
   PondInfo,
@@ -24,10 +25,144 @@ import {
   SplashState,
   StateEffect,
   Tags,
+  TestPond,
+  TestPondOptions,
   Where,
 } from '@actyx/pond'
-import { Observable } from 'rxjs'
+import { NEVER, Observable } from 'rxjs'
+import {
+  CommandHandler,
+  CommandResult,
+  DispatchOpts,
+  mkDispatch,
+  mkRunCommand,
+} from './commands'
+import { fromPromise, rxPondError } from './errors'
 import { mkEvents, RxEventFn } from './events'
+import {
+  InstrumentedPond,
+  instrumentPond,
+  mkHealth$,
+  PondHealth,
+} from './health'
+import { federate, FederatedRxPond, FederationOpts } from './federation'
+import { FishStates, Joined, mkObserveJoined } from './join'
+import { EffectApplied, mkKeepRunning$ } from './keepRunning'
+import { withLifecycle } from './lifecycle'
+import { FishChanges, mkObserveAllChanges } from './observeAllChanges'
+import { mkOutbox, Outbox, OutboxOpts } from './outbox'
+import { mkObserveRxFish, RxFish } from './rxFish'
+import { mkResilient, ResilientOpts, ResilientRxPond } from './resilient'
+import { withSharedObservations } from './share'
+import {
+  CachedState,
+  mkObserveCached,
+  mkObserveOneCached,
+  SnapshotOpts,
+} from './snapshots'
+import { pondReadiness$, Readiness, withSwarmSync } from './sync'
+import { mkTestEventFactory, TestEventInput } from './testing'
+import { TraceSink, withTracing } from './tracing'
+
+export { CatchUpMessage } from './catchUp'
+export {
+  CheckpointedEvent,
+  CheckpointQuery,
+  CheckpointStore,
+} from './checkpoint'
+export {
+  CommandEvent,
+  CommandHandler,
+  CommandResult,
+  DispatchOpts,
+} from './commands'
+export {
+  DecodedEventFn,
+  Decoder,
+  DecodeResult,
+  InvalidEvent,
+  PayloadDecoders,
+} from './decoders'
+export {
+  RxPondDisposedError,
+  RxPondError,
+  RxPondErrorContext,
+  RxPondOperation,
+} from './errors'
+export { RxEventFn, TypedEventSubscription, TypedRangeQuery } from './events'
+export {
+  EmitRoute,
+  FederatedEmitError,
+  FederatedEventFn,
+  FederatedOffsets,
+  FederatedPondState,
+  FederatedQuery,
+  FederatedRxPond,
+  FederatedSubscription,
+  FederatedSyncState,
+  FederationOpts,
+  SourcedEvent,
+  SourcedEventChunk,
+} from './federation'
+export { HealthCounters, PondHealth } from './health'
+export {
+  FishStates,
+  Joined,
+  joinByKey,
+  JoinedByKey,
+  joinLatest,
+  ObservedValues,
+} from './join'
+export { EffectApplied } from './keepRunning'
+export {
+  ImportOpts,
+  ImportProgress,
+  Ndjson,
+  NdjsonEvent,
+  NdjsonSource,
+  ReadableLike,
+  WritableLike,
+} from './ndjson'
+export { FishChange, FishChanges, toSnapshot } from './observeAllChanges'
+export {
+  EmissionStatus,
+  Outbox,
+  OutboxEntry,
+  OutboxOpts,
+  OutboxStore,
+} from './outbox'
+export {
+  Backoff,
+  ConnectionState,
+  ResilientOpts,
+  ResilientRxPond,
+} from './resilient'
+export { RxFish } from './rxFish'
+export {
+  CachedState,
+  InvalidationPolicy,
+  KeyValueStorage,
+  Snapshot,
+  SnapshotOpts,
+  SnapshotStore,
+} from './snapshots'
+export { Readiness } from './sync'
+export { TestEventInput } from './testing'
+export {
+  EndReason,
+  RecordedSession,
+  RingBufferSink,
+  Session,
+  SessionRecorder,
+  SpanExporter,
+  TraceFilter,
+  TraceRecord,
+  TraceSink,
+  TraceSpan,
+} from './tracing'
+export { EventWindow, windowed, WindowAggregate, WindowSpec } from './windows'
+
+const noop = () => undefined
 
 export type RxPond = {
   /**
@@ -39,7 +174,8 @@ export type RxPond = {
    * @param tags   - Tags to attach to the event. E.g. `Tags('myTag', 'myOtherTag')`
    * @param event  - The event itself.
    * @returns        An Observable that completes when emission is done.
-   *                 The Observable is *hot*, i.e. emission will happen even when the Observable is not subscribed to.
+   *                 The event is emitted upon subscription, once per subscription; without a subscriber nothing is emitted.
+   *                 Errors with an `RxPondError` if the emission fails.
    */
   emit<E>(tags: Tags<E>, event: E): Observable<undefined>
 
@@ -52,16 +188,36 @@ export type RxPond = {
    * `fishId` is already known, that other Fish’s ongoing aggregation will be used instead of
    * starting a new one.
    *
+   * All Observables of the same `fishId` share one registration with the Pond.
+   *
    * @param fish       - Complete Fish information.
    * @returns            An Observable of updated states. Each published state will be stricter newer than the last one.
    *                     (One state is buffered and immediately supplied to new subscribers.)
+   *                     Errors with an `RxPondError` if the Fish’s aggregation fails, e.g. because `onEvent` threw.
    */
   observe<S, E>(fish: Fish<S, E>): Observable<S>
 
+  /**
+   * Observe the state of an `RxFish`, computed by an RxJS pipeline over its events.
+   *
+   * Events are fed to the pipeline in the order the Pond applies them to Fish. When an event
+   * arrives that sorts before events already processed, the pipeline is restarted from the last
+   * state it emitted before that event and all following events are fed again.
+   *
+   * Other than with `observe`, every subscription runs its own aggregation.
+   *
+   * @param fish       - Events, initial state and pipeline of the Fish.
+   * @returns            An Observable of updated states, starting with the state after all currently known events.
+   *                     Errors with an `RxPondError` if the pipeline fails.
+   */
+  observeRxFish<S, E>(fish: RxFish<S, E>): Observable<S>
+
   /**
    * Create Fish from events and observe them all.
    * Note that if a Fish created from some event f0 will also observe events earlier than f0, if they are selected by `where`
    *
+   * All Observables of the same `seedEventsSelector` share one registration with the Pond.
+   *
    * @typeParam F        - Type of the events used to initialize Fish.
    * @typeParam S        - Type of the observed Fish’s state.
    *
@@ -73,6 +229,7 @@ export type RxPond = {
    *
    * @returns            An Observable of updated states. At least one published state will be stricter newer than the last one.
    *                     (The last states are buffered and immediately supplied to new subscribers.)
+   *                     Errors with an `RxPondError` if `makeFish` or the aggregation of one of the Fish fails.
    *
    * @beta
    */
@@ -82,11 +239,41 @@ export type RxPond = {
     opts: ObserveAllOpts,
   ): Observable<S[]>
 
+  /**
+   * Like `observeAll`, but emit what changed instead of all states: which Fish have been added,
+   * which have been updated and which have been removed since the last emission.
+   * Fish are keyed by the canonical representation of their `fishId` (see `FishId.canonical`).
+   *
+   * The first emission contains all Fish known when subscribing, after each of them has
+   * produced its first state. Changes happening at the same time are emitted together.
+   * Use the `toSnapshot` operator to turn the changes into a `Map` of all current states.
+   *
+   * @typeParam F        - Type of the events used to initialize Fish.
+   * @typeParam S        - Type of the observed Fish’s state.
+   *
+   * @param seedEventsSelector  - A `Where<F>` object identifying the seed events to start Fish from
+   * @param makeFish     - Factory function to create a Fish with state `S` from an event of type `F`.
+   *                       `undefined` may be returned to indicate the given seed event should not be converted to a Fish at all.
+   * @param opts         - Optional arguments regarding expiry; Fish are removed once their latest seed event expires.
+   *
+   * @returns            An Observable of change sets.
+   *                     Errors with an `RxPondError` if `makeFish` or the aggregation of one of the Fish fails.
+   *
+   * @beta
+   */
+  observeAllChanges<ESeed, S>(
+    seedEventsSelector: Where<ESeed>,
+    makeFish: (seedEvent: ESeed) => Fish<S, any> | undefined,
+    opts?: ObserveAllOpts,
+  ): Observable<FishChanges<S>>
+
   /**
    * Find the event selected by `firstEvent`, and start a Fish from it.
    * It is legal for `firstEvent` to actually select multiple events;
    * however, `makeFish` must yield the same Fish no matter one is passed in.
    *
+   * All Observables of the same `seedEventSelector` share one registration with the Pond.
+   *
    * @typeParam F        - Type of the initial event.
    * @typeParam S        - Type of the observed Fish’s state.
    *
@@ -99,6 +286,7 @@ export type RxPond = {
    * @returns              An Observable of updated states. At least one published state will be stricter newer than the last one.
    *                       As long as the first event does not exist, this callback will also not be called.
    *                       (The last states are buffered and immediately supplied to new subscribers.)
+   *                       Errors with an `RxPondError` if the Fish’s aggregation fails.
    *
    * @beta
    */
@@ -107,6 +295,68 @@ export type RxPond = {
     makeFish: (seedEvent: ESeed) => Fish<S, any>,
   ): Observable<S>
 
+  /**
+   * Like `observe`, but with a cache of snapshots of the state: the last saved state is emitted
+   * right away, marked as `stale`, until the Pond has hydrated the Fish and emits its live state.
+   * Live states are saved to the store, at most once per `saveIntervalMs`.
+   *
+   * Snapshots are keyed by the entity type and name of the `fishId`, and saved with its version,
+   * or with `opts.version` if given. Snapshots of other versions are discarded or migrated, see `onVersionChange`.
+   *
+   * @typeParam S        - Type of the observed Fish’s state.
+   *
+   * @param fish         - Complete Fish information.
+   * @param opts         - Store of the snapshots, version and invalidation policy.
+   *
+   * @returns            An Observable of states, marked as `stale` while coming from the snapshot.
+   *                     Errors with an `RxPondError` if the Fish’s aggregation fails.
+   */
+  observeCached<S, E>(
+    fish: Fish<S, E>,
+    opts: SnapshotOpts<S>,
+  ): Observable<CachedState<S>>
+
+  /**
+   * Like `observeOne`, but with a cache of snapshots of the state, see `observeCached`.
+   * Snapshots are keyed by `seedEventSelector`; their `version` must be given, as the Fish
+   * is not known before the seed event has been found.
+   *
+   * @typeParam F        - Type of the initial event.
+   * @typeParam S        - Type of the observed Fish’s state.
+   *
+   * @param seedEventSelector   - A `Where<F>` object identifying the seed event
+   * @param makeFish     - Factory function to create the Fish with state `S` from the event of type `F`.
+   * @param opts         - Store of the snapshots, version and invalidation policy.
+   *
+   * @returns            An Observable of states, marked as `stale` while coming from the snapshot.
+   *                     Errors with an `RxPondError` if the Fish’s aggregation fails.
+   */
+  observeOneCached<ESeed, S>(
+    seedEventSelector: Where<ESeed>,
+    makeFish: (seedEvent: ESeed) => Fish<S, any>,
+    opts: SnapshotOpts<S> & { version: number },
+  ): Observable<CachedState<S>>
+
+  /**
+   * Observe several Fish at once and combine their states.
+   *
+   * Emits only once every Fish has produced its initial state. States updated by the same
+   * batch of events result in one update. Use `joinLatest` and `joinByKey` to join other
+   * Observables, e.g. the states of two `observeAll` calls by some ID.
+   *
+   * @typeParam F        - Named Fish to observe.
+   * @typeParam R        - Type of the combined value.
+   *
+   * @param fishes       - The Fish to observe, by name, e.g. `{ order: orderFish, machine: machineFish }`.
+   * @param project      - Function combining the latest states, given by the same names.
+   * @returns            An Observable of combined values, together with the names of the Fish that caused each update.
+   *                     Errors with an `RxPondError` if one of the Fish or `project` fails.
+   */
+  observeJoined<F extends Record<string, Fish<any, any>>, R>(
+    fishes: F,
+    project: (states: FishStates<F>) => R,
+  ): Observable<Joined<keyof F & string, R>>
+
   /* CONDITIONAL EMISSION (STATE EFFECTS) */
 
   /**
@@ -123,7 +373,8 @@ export type RxPond = {
    * @param fish       - Complete Fish information.
    * @param effect     - Function to enqueue new events based on state.
    * @returns            An Observable that completes when emission is done.
-   *                      The Observable is *hot*, i.e. effect will run even when the Observable is not subscribed to.
+   *                      The effect runs upon subscription, once per subscription; without a subscriber it does not run.
+   *                      Errors with an `RxPondError` if the effect throws or its emission fails.
    */
   run<S, EWrite>(
     fish: Fish<S, any>,
@@ -155,12 +406,79 @@ export type RxPond = {
     autoCancel?: (state: S) => boolean,
   ): CancelSubscription
 
+  /**
+   * Install a StateEffect that will be applied automatically whenever the `Fish`’s State has changed,
+   * like `keepRunning`, and observe its applications.
+   *
+   * The effect is uninstalled when the returned Observable is unsubscribed from.
+   *
+   * @typeParam S              - State of the Fish, input value to the effect.
+   * @typeParam EWrite         - Event type(s) the effect may emit.
+   *
+   * @param fish       - Complete Fish information.
+   * @param effect     - Function that decides whether to enqueue new events based on the current state.
+   * @param autoCancel - Condition on which the automatic effect will be cancelled -- state on which `autoCancel` returns `true`
+   *                     will be the first state the effect is *not* applied to anymore. Keep in mind that not all intermediate
+   *                     states will be seen by this function.
+   * @returns            An Observable that emits whenever an application of the effect has enqueued events,
+   *                     together with the `Metadata` of the emitted events, or without it if the emitted events
+   *                     cannot be told apart from identical ones emitted at the same time; the effect keeps running.
+   *                     Completes when `autoCancel` fires, errors with an `RxPondError` if the effect throws.
+   */
+  keepRunning$<S, EWrite>(
+    fish: Fish<S, any>,
+    fn: StateEffect<S, EWrite>,
+    autoCancel?: (state: S) => boolean,
+  ): Observable<EffectApplied<S>>
+
+  /**
+   * Dispatch a command: validate it against the current state of the handler’s Fish and,
+   * if accepted, emit the events produced for it. Like with `run`, every subsequent dispatch
+   * for the same Fish sees the events of earlier dispatches already applied to the state.
+   *
+   * @typeParam C        - Type of the command.
+   * @typeParam S        - State of the Fish the command is validated against.
+   * @typeParam E        - Type of the events produced by the command.
+   *
+   * @param handler      - Fish, validator and events of the command.
+   * @param command      - The command to dispatch.
+   * @param opts         - Optional idempotency key; dispatching again with the same key does not emit
+   *                       events again but yields the result of the first dispatch.
+   * @returns            An Observable emitting the `CommandResult` and completing.
+   *                     The result of an accepted command carries the `Metadata` of the emitted events.
+   *                     Errors with an `RxPondError` if the validator, the event factory or the emission fails.
+   */
+  dispatch<C, S, E>(
+    handler: CommandHandler<C, S, E>,
+    command: C,
+    opts?: DispatchOpts,
+  ): Observable<CommandResult>
+
+  /**
+   * Create an outbox for emissions that must not get lost while there is no connection to Actyx.
+   * Queued emissions are kept in the given store until Actyx has persisted them, and are retried
+   * until it does, also by later outboxes using the same store, e.g. after a restart.
+   * Failed attempts are retried after `retryDelayMs`; a resilient `RxPond` also retries right away
+   * once the connection is back. Emissions failing `maxAttempts` times are given up by this outbox.
+   *
+   * @param opts       - Store to keep queued emissions in, timeouts, retries.
+   * @returns            An `Outbox` to emit through.
+   */
+  outbox(opts?: OutboxOpts): Outbox
+
   /* HOUSE KEEPING FUNCTIONS */
 
   /**
    * Dispose of this Pond, stopping all underlying async operations.
+   * Observations (`observe`, `events().subscribe`, `getPondState`, …) still subscribed to complete,
+   * while pending one-shot operations (`emit`, `run`, queries, `waitForSwarmSync`, …) error with an
+   * `RxPondDisposedError`. `keepRunning` registrations are cancelled and outboxes are disposed of.
+   * Any later use of this `RxPond` throws an `RxPondDisposedError`.
+   *
+   * @returns A Promise that resolves once the teardown has finished. Calling `dispose` again
+   *          returns the same Promise.
    */
-  dispose(): void
+  dispose(): Promise<void>
 
   /**
    * Information about the current pond
@@ -179,6 +497,28 @@ export type RxPond = {
    */
   waitForSwarmSync(): Observable<SplashState>
 
+  /**
+   * The progress of the swarm sync merged with the state of the Pond, e.g. for showing a single
+   * loading indicator. Emits whenever either of them changes.
+   */
+  readiness$: Observable<Readiness>
+
+  /**
+   * Get a view on this `RxPond` whose observations (`observe`, `observeAll`, …), state effects
+   * (`run`, `keepRunning`, `dispatch`, …) and `events()` queries wait until `waitForSwarmSync`
+   * has completed. Emission of events is not delayed.
+   *
+   * Use the `waitForSwarmSync` option of `RxPondOptions` to get such a view right away.
+   */
+  whenSynced(): RxPond
+
+  /**
+   * Health of this `RxPond`: what the Pond is busy with, derived from `getPondState`, together with
+   * counters of the events emitted and the Fish observed through it.
+   * Emits only when something has changed. Unsubscribing cancels the registration with the Pond.
+   */
+  health$: Observable<PondHealth>
+
   /**
    * Get an object that offers a number of functions related purely to events (no Fish).
    */
@@ -188,60 +528,138 @@ export type RxPond = {
   originalPond: Pond
 }
 
-const wrap = (pond: Pond): RxPond => ({
-  emit: <E>(tags: Tags<E>, event: E) => {
-    return new Observable(o =>
-      pond.emit(tags, event).subscribe(() => {
-        o.next(undefined)
-        o.complete()
-      }),
-    )
-  },
+const mkObserve = (pond: Pond) => <S, E>(fish: Fish<S, E>): Observable<S> =>
+  new Observable<S>(o =>
+    pond.observe<S, E>(
+      fish,
+      v => o.next(v),
+      err =>
+        o.error(
+          rxPondError('observe', {
+            fishId: fish.fishId,
+            tags: fish.where.toString(),
+          })(err),
+        ),
+    ),
+  )
 
-  observe: <S, E>(fish: Fish<S, E>) =>
-    new Observable<S>(o =>
-      pond.observe<S, E>(
-        fish,
-        v => o.next(v),
+const mkObserveOne = (pond: Pond) => <ESeed, S>(
+  seedEventsSelector: Where<ESeed>,
+  makeFish: (seedEvent: ESeed) => Fish<S, any>,
+): Observable<S> =>
+  new Observable<S>(o =>
+    pond.observeOne<ESeed, S>(
+      seedEventsSelector,
+      makeFish,
+      v => o.next(v),
+      err =>
+        o.error(
+          rxPondError('observeOne', {
+            tags: seedEventsSelector.toString(),
+          })(err),
+        ),
+    ),
+  )
+
+const wrapUnshared = (
+  pond: InstrumentedPond,
+  whenSynced: () => RxPond,
+): RxPond => ({
+  emit: <E>(tags: Tags<E>, event: E) =>
+    new Observable<undefined>(o =>
+      fromPromise(
+        pond.emit(tags, event).toPromise(),
+        rxPondError('emit', { tags: tags.toString() }),
+      ).subscribe(
+        () => o.next(undefined),
         err => o.error(err),
+        () => o.complete(),
       ),
     ),
 
+  observe: mkObserve(pond),
+
+  observeJoined: mkObserveJoined(mkObserve(pond)),
+
+  observeRxFish: mkObserveRxFish(mkEvents(pond)),
+
   observeAll: <ESeed, S>(
     seedEventsSelector: Where<ESeed>,
     makeFish: (seedEvent: ESeed) => Fish<S, any> | undefined,
     opts: ObserveAllOpts,
   ): Observable<S[]> =>
-    new Observable<S[]>(o =>
-      pond.observeAll<ESeed, S>(seedEventsSelector, makeFish, opts, v =>
-        o.next(v),
-      ),
-    ),
-  observeOne: <ESeed, S>(
-    seedEventsSelector: Where<ESeed>,
-    makeFish: (seedEvent: ESeed) => Fish<S, any>,
-  ): Observable<S> =>
-    new Observable<S>(o =>
-      pond.observeOne<ESeed, S>(
+    new Observable<S[]>(o => {
+      // The Pond swallows errors of `makeFish` and of the created Fish, so we watch them ourselves.
+      const watched: Record<string, CancelSubscription> = {}
+      const watchedMakeFish = (seedEvent: ESeed) => {
+        try {
+          const fish = makeFish(seedEvent)
+          const key = fish && FishId.canonical(fish.fishId)
+          if (fish && key && !watched[key]) {
+            watched[key] = pond.observe(fish, noop, err =>
+              o.error(
+                rxPondError('observeAll', {
+                  fishId: fish.fishId,
+                  tags: fish.where.toString(),
+                })(err),
+              ),
+            )
+          }
+          return fish
+        } catch (err) {
+          o.error(
+            rxPondError('observeAll', {
+              tags: seedEventsSelector.toString(),
+            })(err),
+          )
+          return undefined
+        }
+      }
+
+      const cancel = pond.observeAll<ESeed, S>(
         seedEventsSelector,
-        makeFish,
+        watchedMakeFish,
+        opts,
         v => o.next(v),
+      )
+      return () => {
+        cancel()
+        Object.values(watched).forEach(cancelWatch => cancelWatch())
+      }
+    }),
+
+  observeAllChanges: mkObserveAllChanges(pond),
+
+  observeOne: mkObserveOne(pond),
+
+  observeCached: mkObserveCached(mkObserve(pond)),
+
+  observeOneCached: mkObserveOneCached(mkObserveOne(pond)),
+
+  run: <S, EWrite>(fish: Fish<S, any>, fn: StateEffect<S, EWrite>) =>
+    new Observable<undefined>(o =>
+      fromPromise(
+        pond.run(fish, fn).toPromise(),
+        rxPondError('run', {
+          fishId: fish.fishId,
+          tags: fish.where.toString(),
+        }),
+      ).subscribe(
+        () => o.next(undefined),
         err => o.error(err),
+        () => o.complete(),
       ),
     ),
 
-  run: <S, EWrite>(fish: Fish<S, any>, fn: StateEffect<S, EWrite>) => {
-    return new Observable(o =>
-      pond.run(fish, fn).subscribe(() => {
-        o.next(undefined)
-        o.complete()
-      }),
-    )
-  },
-
   keepRunning: pond.keepRunning,
 
-  dispose: pond.dispose,
+  keepRunning$: mkKeepRunning$(pond),
+
+  dispatch: mkDispatch(mkRunCommand(pond)),
+
+  outbox: mkOutbox(mkEvents(pond).emit, NEVER),
+
+  dispose: async () => pond.dispose(),
 
   info: pond.info,
 
@@ -255,16 +673,117 @@ const wrap = (pond: Pond): RxPond => ({
       }),
     ),
 
+  readiness$: pondReadiness$(pond),
+
+  whenSynced,
+
+  health$: mkHealth$(pond),
+
   events: () => mkEvents(pond),
-  originalPond: pond,
+  originalPond: pond.original,
 })
 
+/** Options for the adapter itself, independent of the underlying Pond. */
+export type RxPondOptions = Readonly<{
+  /**
+   * Time in milliseconds to keep the observation of a Fish alive after its last subscriber left,
+   * so that subscribers coming and going quickly, e.g. during re-rendering, reuse it. Defaults to 0.
+   */
+  observeGracePeriodMs?: number
+  /**
+   * Make observations, state effects and event queries wait until the swarm sync has completed,
+   * see `RxPond.whenSynced`. Defaults to false.
+   */
+  waitForSwarmSync?: boolean
+  /**
+   * Trace emissions, observed Fish states, event subscriptions and queries to the given sink,
+   * e.g. `TraceSink.ringBuffer()`, or `Session.record()` for replaying them later. Off by default.
+   */
+  trace?: TraceSink
+}>
+
+const wrap = (pond: Pond, opts: RxPondOptions = {}): RxPond => {
+  const shared = withSharedObservations(
+    wrapUnshared(instrumentPond(pond), () => synced),
+    opts.observeGracePeriodMs || 0,
+  )
+  const rxPond = withLifecycle(
+    opts.trace !== undefined ? withTracing(shared, opts.trace) : shared,
+  )
+  const synced = withSwarmSync(rxPond)
+  return opts.waitForSwarmSync ? synced : rxPond
+}
+
+/**
+ * An `RxPond` backed by an in-memory event store, with extensions for testing.
+ */
+export type TestRxPond = RxPond & {
+  /**
+   * Inject events directly into the in-memory store, as if they had arrived from another node.
+   * Missing stream IDs, offsets, lamports and timestamps are filled in automatically.
+   *
+   * @param events - Events to inject, in order.
+   */
+  directlyPushEvents: (events: ReadonlyArray<TestEventInput>) => void
+
+  /** The underlying plain test Pond instance */
+  originalPond: TestPond
+}
+
+const wrapTest = (pond: TestPond, opts?: RxPondOptions): TestRxPond => {
+  const mkTestEvent = mkTestEventFactory()
+  const directlyPushEvents: TestRxPond['directlyPushEvents'] = events =>
+    pond.directlyPushEvents(events.map(mkTestEvent))
+  // Assigning does not evaluate the `originalPond` getter, which already returns the `TestPond`.
+  return Object.assign(wrap(pond, opts), { directlyPushEvents }) as TestRxPond
+}
+
 export const RxPond = {
-  default: async (manifest: AppManifest): Promise<RxPond> =>
-    wrap(await Pond.default(manifest)),
+  default: async (
+    manifest: AppManifest,
+    opts?: RxPondOptions,
+  ): Promise<RxPond> => wrap(await Pond.default(manifest), opts),
 
-  of: async (params: Parameters<typeof Pond['of']>): Promise<RxPond> =>
-    wrap(await Pond.of(...params)),
+  of: async (
+    params: Parameters<typeof Pond['of']>,
+    opts?: RxPondOptions,
+  ): Promise<RxPond> => wrap(await Pond.of(...params), opts),
 
   from: wrap,
+
+  /**
+   * Get an `RxPond` that keeps reconnecting to the Actyx node, recreating the underlying Pond
+   * whenever the connection is lost. Observables obtained from it survive reconnection;
+   * event subscriptions resume after the last event they delivered.
+   *
+   * @param manifest - Manifest of the app, as for `Pond.of`.
+   * @param opts     - Connection, Pond and backoff options.
+   */
+  resilient: (manifest: AppManifest, opts?: ResilientOpts): ResilientRxPond =>
+    mkResilient(wrap)(manifest, opts),
+
+  /**
+   * Get one facade over several `RxPond`s, e.g. of different app identities or nodes.
+   * Event subscriptions and queries span all of them, annotating events with their member;
+   * emissions are routed to a member by the tags of the events, and are not atomic across members.
+   * The federation is not an `RxPond`: Fish are observed and run on its members.
+   *
+   * @param members  - The `RxPond`s to federate, keyed by name.
+   * @param opts     - Routes for emissions.
+   */
+  federate: (
+    members: Readonly<Record<string, RxPond>>,
+    opts?: FederationOpts,
+  ): FederatedRxPond => federate(members, opts),
+
+  /**
+   * Get an `RxPond` that runs on a simulated, initially empty event store in memory.
+   * No Actyx node is required.
+   */
+  test: (testOpts?: TestPondOptions, opts?: RxPondOptions): TestRxPond =>
+    wrapTest(Pond.test(testOpts), opts),
+
+  /** Alias of `RxPond.test` */
+  inMemory: (testOpts?: TestPondOptions, opts?: RxPondOptions): TestRxPond =>
+    wrapTest(Pond.test(testOpts), opts),
 }
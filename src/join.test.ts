@@ -0,0 +1,134 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Fish, FishId, Tag } from '@actyx/pond'
+import { joinByKey, joinLatest, RxPond } from '.'
+import { Subject } from 'rxjs'
+import { first, take, toArray } from 'rxjs/operators'
+
+const mkFish = (name: string): Fish<string[], string> => ({
+  fishId: FishId.of('Joined', name, 1),
+  initialState: [],
+  onEvent: (state, e) => [...state, e],
+  where: Tag<string>(name),
+})
+
+describe('observeJoined', () => {
+  it('emits after all initial states and reports the causing inputs', async () => {
+    const pond = RxPond.test()
+    pond.directlyPushEvents([{ tags: ['a'], payload: 'a1' }])
+    const fishes = { a: mkFish('a'), b: mkFish('b') }
+    const project = ({ a, b }: { a: string[]; b: string[] }) =>
+      a.length + b.length
+
+    const updates = pond
+      .observeJoined(fishes, project)
+      .pipe(take(3), toArray())
+      .toPromise()
+    await pond
+      .observeJoined(fishes, project)
+      .pipe(first())
+      .toPromise()
+    pond.directlyPushEvents([{ tags: ['b'], payload: 'b1' }])
+    await pond
+      .observe(fishes.b)
+      .pipe(first(s => s.length === 1))
+      .toPromise()
+    pond.directlyPushEvents([{ tags: ['a', 'b'], payload: 'ab' }])
+
+    const result = await updates
+    pond.dispose()
+    expect(result).toEqual([
+      { value: 1, changed: ['a', 'b'] },
+      { value: 2, changed: ['b'] },
+      { value: 4, changed: ['a', 'b'] },
+    ])
+  })
+
+  it('joins observeAll states by key', async () => {
+    const pond = RxPond.test()
+    type Order = { id: string; machine: string }
+    type Machine = { id: string; state: string }
+    const mkOrder = (id: string): Fish<Order, string> => ({
+      fishId: FishId.of('Order', id, 1),
+      initialState: { id, machine: '' },
+      onEvent: (state, machine) => ({ ...state, machine }),
+      where: Tag<string>('order').withId(id),
+    })
+    const mkMachine = (id: string): Fish<Machine, string> => ({
+      fishId: FishId.of('Machine', id, 1),
+      initialState: { id, state: 'idle' },
+      onEvent: (s, state) => ({ ...s, state }),
+      where: Tag<string>('machine').withId(id),
+    })
+    pond.directlyPushEvents([
+      { tags: ['orderCreated'], payload: 'o1' },
+      { tags: ['orderCreated'], payload: 'o2' },
+      { tags: ['order', 'order:o1'], payload: 'm1' },
+      { tags: ['order', 'order:o2'], payload: 'm2' },
+      { tags: ['machineAdded'], payload: 'm1' },
+      { tags: ['machine', 'machine:m1'], payload: 'running' },
+    ])
+
+    const joined = await joinLatest(
+      {
+        left: pond.observeAll(Tag<string>('orderCreated'), mkOrder, {}),
+        right: pond.observeAll(Tag<string>('machineAdded'), mkMachine, {}),
+      },
+      joinByKey(
+        (o: Order) => o.machine,
+        (m: Machine) => m.id,
+      ),
+    )
+      .pipe(first())
+      .toPromise()
+    pond.dispose()
+
+    expect(
+      joined.value.map(({ key, left, right }) => [
+        key,
+        left.id,
+        right && right.state,
+      ]),
+    ).toEqual([
+      ['m1', 'o1', 'running'],
+      ['m2', 'o2', undefined],
+    ])
+  })
+})
+
+describe('joinLatest', () => {
+  it('combines values emitted at the same time into one update', async () => {
+    const a = new Subject<number>()
+    const b = new Subject<number>()
+    const updates = joinLatest({ a, b }, ({ a, b }) => a + b)
+      .pipe(toArray())
+      .toPromise()
+
+    a.next(1)
+    b.next(2)
+    await new Promise(res => setTimeout(res, 0))
+    b.next(3)
+    a.next(4)
+    b.next(5)
+    a.complete()
+    b.complete()
+
+    expect(await updates).toEqual([
+      { value: 3, changed: ['a', 'b'] },
+      { value: 9, changed: ['b', 'a'] },
+    ])
+  })
+})
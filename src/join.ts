@@ -0,0 +1,151 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Fish } from '@actyx/pond'
+import { Observable, throwError } from 'rxjs'
+import { catchError } from 'rxjs/operators'
+import { RxPondError, rxPondError } from './errors'
+
+/** A joined value together with the names of the inputs that changed since the last one. */
+export type Joined<K extends string, R> = Readonly<{
+  value: R
+  /** Inputs that caused this update; all inputs for the first one. */
+  changed: ReadonlyArray<K>
+}>
+
+/** Latest values of the given named Observables. */
+export type ObservedValues<T extends Record<string, Observable<unknown>>> = {
+  [K in keyof T]: T[K] extends Observable<infer V> ? V : never
+}
+
+/** States of the given named Fish. */
+export type FishStates<F extends Record<string, Fish<any, any>>> = {
+  [K in keyof F]: F[K] extends Fish<infer S, any> ? S : never
+}
+
+/**
+ * Like `combineLatest`, but with named inputs, and reporting which of them caused each update.
+ *
+ * Emits once every input has produced a value. Values produced within the same turn of the event
+ * loop, e.g. because the Fish behind them were updated by the same batch of events, result in one
+ * update.
+ * Completes once all inputs have completed.
+ */
+export const joinLatest = <T extends Record<string, Observable<unknown>>, R>(
+  inputs: T,
+  project: (values: ObservedValues<T>) => R,
+): Observable<Joined<keyof T & string, R>> =>
+  new Observable<Joined<keyof T & string, R>>(o => {
+    type K = keyof T & string
+    const keys = Object.keys(inputs) as K[]
+    const values: Partial<Record<K, unknown>> = {}
+    const seen = new Set<K>()
+    let changed = new Set<K>()
+    let completed = 0
+    let flushTimer: ReturnType<typeof setTimeout> | undefined = undefined
+
+    const flush = () => {
+      flushTimer = undefined
+      if (o.closed || seen.size < keys.length || changed.size === 0) {
+        return
+      }
+      const causes = Array.from(changed)
+      changed = new Set()
+      let value: R
+      try {
+        value = project(values as ObservedValues<T>)
+      } catch (err) {
+        o.error(err)
+        return
+      }
+      o.next({ value, changed: causes })
+    }
+
+    const subs = keys.map(key =>
+      inputs[key].subscribe(
+        v => {
+          values[key] = v
+          seen.add(key)
+          changed.add(key)
+          if (flushTimer === undefined) {
+            flushTimer = setTimeout(flush, 0)
+          }
+        },
+        err => o.error(err),
+        () => {
+          completed += 1
+          if (completed === keys.length) {
+            // Let the last values through before completing.
+            setTimeout(() => o.complete(), 0)
+          }
+        },
+      ),
+    )
+
+    return () => {
+      subs.forEach(sub => sub.unsubscribe())
+      flushTimer !== undefined && clearTimeout(flushTimer)
+    }
+  })
+
+/** One row of a keyed join: the left value and the right value with the same key, if any. */
+export type JoinedByKey<L, R> = Readonly<{
+  key: string
+  left: L
+  right: R | undefined
+}>
+
+/**
+ * Create a projection for `joinLatest` that joins two arrays by key, e.g. the states of two
+ * `observeAll` calls. Every element of `left` is paired with the element of `right` having the
+ * same key (left outer join); if several elements of `right` share a key, the last one wins.
+ */
+export const joinByKey = <L, R>(
+  leftKey: (left: L) => string,
+  rightKey: (right: R) => string,
+) => ({
+  left,
+  right,
+}: {
+  left: ReadonlyArray<L>
+  right: ReadonlyArray<R>
+}): JoinedByKey<L, R>[] => {
+  const byKey = new Map<string, R>()
+  right.forEach(r => byKey.set(rightKey(r), r))
+  return left.map(l => {
+    const key = leftKey(l)
+    return { key, left: l, right: byKey.get(key) }
+  })
+}
+
+/**
+ * Create the `observeJoined` function of an `RxPond`, based on its `observe` function.
+ */
+export const mkObserveJoined = (
+  observe: <S, E>(fish: Fish<S, E>) => Observable<S>,
+) => <F extends Record<string, Fish<any, any>>, R>(
+  fishes: F,
+  project: (states: FishStates<F>) => R,
+): Observable<Joined<keyof F & string, R>> => {
+  const inputs: Record<string, Observable<unknown>> = {}
+  Object.keys(fishes).forEach(key => (inputs[key] = observe(fishes[key])))
+  return joinLatest(inputs, states => project(states as FishStates<F>)).pipe(
+    catchError(err =>
+      throwError(
+        err instanceof RxPondError ? err : rxPondError('observeJoined')(err),
+      ),
+    ),
+  ) as Observable<Joined<keyof F & string, R>>
+}
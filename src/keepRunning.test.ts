@@ -0,0 +1,136 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Fish, FishId, Tag } from '@actyx/pond'
+import { RxPond, RxPondError } from '.'
+import { take, toArray } from 'rxjs/operators'
+
+const CountTag = Tag<number>('count')
+const CountFish: Fish<number[], number> = {
+  fishId: FishId.of('CountFish', 'Fish1', 1),
+  initialState: [],
+  onEvent: (state, e) => [...state, e],
+  where: CountTag,
+}
+
+describe('keepRunning$', () => {
+  it('notifies about every application with the emitted metadata', async () => {
+    const pond = RxPond.test()
+
+    const applied = await pond
+      .keepRunning$(
+        CountFish,
+        (state, enqueue) => enqueue(CountTag, state.length),
+        state => state.length >= 3,
+      )
+      .pipe(toArray())
+      .toPromise()
+    pond.dispose()
+
+    expect(applied.map(a => a.state)).toEqual([[], [0], [0, 1]])
+    const metadata = applied.map(a => a.metadata || [])
+    expect(metadata.map(m => m.map(meta => meta.tags))).toEqual([
+      [['count']],
+      [['count']],
+      [['count']],
+    ])
+    expect(metadata.map(m => m[0].offset)).toEqual([0, 1, 2])
+  })
+
+  it('does not notify about applications that enqueue nothing', async () => {
+    const pond = RxPond.test()
+    pond.directlyPushEvents([
+      { tags: ['count'], payload: 10 },
+      { tags: ['count'], payload: 11 },
+    ])
+
+    const applied = await pond
+      .keepRunning$(
+        CountFish,
+        (state, enqueue) => {
+          if (state.length % 2 === 0) {
+            enqueue(CountTag, state.length)
+          }
+        },
+        state => state.length >= 3,
+      )
+      .pipe(toArray())
+      .toPromise()
+    pond.dispose()
+
+    expect(applied.map(a => a.state)).toEqual([[10, 11]])
+  })
+
+  it('stops applying the effect on unsubscribe', async () => {
+    const pond = RxPond.test()
+
+    await pond
+      .keepRunning$(CountFish, (state, enqueue) =>
+        enqueue(CountTag, state.length),
+      )
+      .pipe(take(2))
+      .toPromise()
+    pond.directlyPushEvents([
+      { tags: ['count'], payload: 42, lamport: 1_000_000 },
+    ])
+
+    const state = await pond
+      .observe(CountFish)
+      .pipe(take(1))
+      .toPromise()
+    pond.dispose()
+    expect(state).toEqual([0, 1, 42])
+  })
+
+  it('errors when the effect throws', async () => {
+    const pond = RxPond.test()
+
+    const err = await pond
+      .keepRunning$(CountFish, () => {
+        throw new Error('broken effect')
+      })
+      .toPromise()
+      .catch(e => e)
+    pond.dispose()
+
+    expect(err).toBeInstanceOf(RxPondError)
+    expect(err.operation).toEqual('keepRunning$')
+    expect(err.context.fishId).toEqual(CountFish.fishId)
+  })
+
+  it('keeps running without guessing the metadata of ambiguous events', async () => {
+    const pond = RxPond.test()
+
+    const applied = await pond
+      .keepRunning$(
+        CountFish,
+        async (state, enqueue) => {
+          if (state.length === 0) {
+            // The very same event, emitted while the effect is running.
+            await pond.emit(CountTag, 7).toPromise()
+          }
+          enqueue(CountTag, 7)
+        },
+        state => state.length >= 3,
+      )
+      .pipe(toArray())
+      .toPromise()
+    pond.dispose()
+
+    expect(applied.map(a => a.state)).toEqual([[], [7, 7]])
+    expect(applied[0].metadata).toBeUndefined()
+    expect(applied[1].metadata).toHaveLength(1)
+  })
+})
@@ -0,0 +1,191 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  ActyxEvent,
+  AddEmission,
+  Fish,
+  Metadata,
+  OffsetMap,
+  Pond,
+  StateEffect,
+  TaggedEvent,
+  Tags,
+  Where,
+} from '@actyx/pond'
+import { EMPTY, Observable } from 'rxjs'
+import { mergeMap, takeWhile } from 'rxjs/operators'
+import { fromPromise, rxPondError } from './errors'
+
+/** Notification about one application of an automatic effect that enqueued events. */
+export type EffectApplied<S> = Readonly<{
+  /** The state the effect was applied to. */
+  state: S
+  /**
+   * Metadata of the events enqueued by the effect, in the order they were enqueued, or `undefined`
+   * if it could not be looked up, e.g. because identical events were emitted at the same time.
+   */
+  metadata: Metadata[] | undefined
+}>
+
+/** Events enqueued by one application of an effect, emitted after `lowerBound`. */
+export type Application<S> = {
+  state: S
+  enqueued: TaggedEvent[]
+  lowerBound: OffsetMap
+}
+
+/** JSON representation of `value` that does not depend on the order of object keys. */
+export const canonicalJson = (value: unknown): string =>
+  JSON.stringify(value, (_, v) =>
+    v !== null && typeof v === 'object' && !Array.isArray(v)
+      ? Object.keys(v)
+          .sort()
+          .reduce<Record<string, unknown>>((acc, k) => {
+            acc[k] = v[k]
+            return acc
+          }, {})
+      : v,
+  )
+
+const sameTags = (a: ReadonlyArray<string>, b: ReadonlyArray<string>) =>
+  a.length === b.length && [...a].sort().join() === [...b].sort().join()
+
+const sameEvent = (enqueued: TaggedEvent, candidate: ActyxEvent) =>
+  sameTags(enqueued.tags, candidate.meta.tags) &&
+  canonicalJson(enqueued.event) === canonicalJson(candidate.payload)
+
+/**
+ * The Pond does not hand out the metadata of events emitted by effects, so we look them up
+ * among the local events that were emitted while the effect was running. The events of one
+ * application are persisted together, so they occupy consecutive offsets of the local stream.
+ *
+ * Fails if there is no such run of events, or more than one, e.g. because another effect
+ * emitted the very same events at the same time; partial or guessed metadata is never returned.
+ */
+export const lookupMetadata = async <S>(
+  pond: Pond,
+  { state, enqueued, lowerBound }: Application<S>,
+): Promise<{ state: S; metadata: Metadata[] }> => {
+  const events = pond.events()
+  const query = enqueued
+    .map(e => Tags(...e.tags).local() as Where<unknown>)
+    .reduce((acc, where) => acc.or(where))
+  const candidates = (
+    await events.queryKnownRange({
+      query,
+      lowerBound,
+      upperBound: await events.present(),
+    })
+  ).sort((a, b) => a.meta.offset - b.meta.offset)
+
+  const matches: Metadata[][] = []
+  for (let start = 0; start + enqueued.length <= candidates.length; start++) {
+    const run = candidates.slice(start, start + enqueued.length)
+    const first = run[0].meta
+    const matching = run.every(
+      (c, idx) =>
+        c.meta.stream === first.stream &&
+        c.meta.offset === first.offset + idx &&
+        sameEvent(enqueued[idx], c),
+    )
+    if (matching) {
+      matches.push(run.map(c => c.meta))
+    }
+  }
+  if (matches.length !== 1) {
+    throw new Error(
+      `cannot tell the metadata of the ${enqueued.length} emitted events, ` +
+        `found ${matches.length} matching runs of local events`,
+    )
+  }
+  return { state, metadata: matches[0] }
+}
+
+/**
+ * Create the `keepRunning$` function of an `RxPond`.
+ *
+ * Other than `Pond.keepRunning`, every application of the effect goes through `Pond.run`,
+ * so that its completion and failure can be observed.
+ */
+export const mkKeepRunning$ = (pond: Pond) => <S, EWrite>(
+  fish: Fish<S, any>,
+  fn: StateEffect<S, EWrite>,
+  autoCancel?: (state: S) => boolean,
+): Observable<EffectApplied<S>> =>
+  new Observable<EffectApplied<S>>(o => {
+    const toError = rxPondError('keepRunning$', {
+      fishId: fish.fishId,
+      tags: fish.where.toString(),
+    })
+    // Stops effects that have already been queued up from being applied after cancellation.
+    let cancelled = false
+
+    const applyOnce = async (): Promise<Application<S> | undefined> => {
+      let application: Application<S> | undefined = undefined
+      const effect: StateEffect<S, EWrite> = async (state, enqueue, p) => {
+        if (cancelled) {
+          return
+        }
+        const lowerBound = await pond.events().present()
+        const enqueued: TaggedEvent[] = []
+        const recordingEnqueue: AddEmission<EWrite> = (...args) => {
+          enqueued.push(args.length === 1 ? args[0] : args[0].apply(args[1]))
+          enqueue(...args)
+        }
+        await fn(state, recordingEnqueue, p)
+        application = { state, enqueued, lowerBound }
+      }
+      await pond.run(fish, effect).toPromise()
+      return application
+    }
+
+    const states = new Observable<S>(so =>
+      pond.observe(
+        fish,
+        s => so.next(s),
+        err => so.error(toError(err)),
+      ),
+    )
+
+    const sub = states
+      .pipe(
+        takeWhile(state => {
+          cancelled = cancelled || (!!autoCancel && autoCancel(state))
+          return !cancelled
+        }),
+        mergeMap(() =>
+          fromPromise(
+            applyOnce().then(application =>
+              application && application.enqueued.length > 0
+                ? // Not knowing the metadata is no reason to uninstall the effect.
+                  lookupMetadata(pond, application).catch(() => ({
+                    state: application.state,
+                    metadata: undefined,
+                  }))
+                : undefined,
+            ),
+            toError,
+          ),
+        ),
+        mergeMap(applied => (applied ? [applied] : EMPTY)),
+      )
+      .subscribe(o)
+
+    return () => {
+      cancelled = true
+      sub.unsubscribe()
+    }
+  })
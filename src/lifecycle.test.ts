@@ -0,0 +1,92 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Fish, FishId, Tag } from '@actyx/pond'
+import { RxPond, RxPondDisposedError } from '.'
+import { first, toArray } from 'rxjs/operators'
+
+const InputTag = Tag<string>('input')
+const InputFish: Fish<string[], string> = {
+  fishId: FishId.of('InputFish', 'inputs', 1),
+  initialState: [],
+  onEvent: (state, e) => [...state, e],
+  where: InputTag,
+}
+
+describe('dispose', () => {
+  it('completes observations', async () => {
+    const pond = RxPond.test()
+    const completed: string[] = []
+    const complete = (name: string) => () => completed.push(name)
+    pond.observe(InputFish).subscribe({ complete: complete('observe') })
+    pond
+      .events()
+      .subscribe({ query: InputTag })
+      .subscribe({ complete: complete('subscribe') })
+    pond.getPondState().subscribe({ complete: complete('getPondState') })
+    await pond.emit(InputTag, 'a').toPromise()
+    await pond
+      .observe(InputFish)
+      .pipe(first(state => state.length > 0))
+      .toPromise()
+
+    await pond.dispose()
+
+    expect(completed).toEqual(['observe', 'subscribe', 'getPondState'])
+  })
+
+  it('errors pending one-shot operations', async () => {
+    const pond = RxPond.test()
+    // Never finishes, the swarm sync is mocked to hang.
+    jest
+      .spyOn(pond.originalPond, 'waitForSwarmSync')
+      .mockImplementation(() => undefined)
+    const sync = pond.waitForSwarmSync().toPromise()
+
+    await pond.dispose()
+
+    await expect(sync).rejects.toEqual(
+      new RxPondDisposedError('waitForSwarmSync'),
+    )
+  })
+
+  it('rejects use after dispose', async () => {
+    const pond = RxPond.test()
+    const states = pond.observe(InputFish)
+    const disposal = pond.dispose()
+
+    expect(pond.dispose()).toBe(disposal)
+    await disposal
+    expect(() => pond.observe(InputFish)).toThrow(RxPondDisposedError)
+    expect(() => pond.emit(InputTag, 'a')).toThrow(
+      'RxPond.emit cannot be used, the RxPond has been disposed',
+    )
+    expect(() => pond.events()).toThrow(RxPondDisposedError)
+    await expect(states.toPromise()).rejects.toEqual(
+      new RxPondDisposedError('observe'),
+    )
+  })
+
+  it('disposes outboxes', async () => {
+    const pond = RxPond.test()
+    const outbox = pond.outbox()
+    const pending = outbox.pending$.pipe(toArray()).toPromise()
+    await outbox.pending$.pipe(first()).toPromise()
+
+    await pond.dispose()
+
+    expect(await pending).toEqual([[]])
+  })
+})
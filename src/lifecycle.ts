@@ -0,0 +1,266 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { CancelSubscription } from '@actyx/pond'
+import { Observable } from 'rxjs'
+import { RxPondDisposedError } from './errors'
+import { RxEventFn } from './events'
+import { RxPond } from './index'
+import { Outbox } from './outbox'
+
+/**
+ * How an Observable still subscribed to when the `RxPond` is disposed ends: observations complete,
+ * while one-shot operations error because their result will never arrive.
+ */
+type Ending = 'complete' | 'error'
+
+/**
+ * Track everything obtained from `rxPond`, so that disposing of it ends all subscriptions, cancels
+ * `keepRunning` registrations and disposes of outboxes. Any use after disposal throws an
+ * `RxPondDisposedError`.
+ */
+export const withLifecycle = (rxPond: RxPond): RxPond => {
+  const active = new Set<() => void>()
+  const cancels = new Set<CancelSubscription>()
+  const outboxes = new Set<Outbox>()
+  let disposal: Promise<void> | undefined = undefined
+
+  const check = (operation: string) => {
+    if (disposal !== undefined) {
+      throw new RxPondDisposedError(operation)
+    }
+  }
+
+  const track = <T>(
+    operation: string,
+    ending: Ending,
+    source: Observable<T>,
+  ): Observable<T> =>
+    new Observable<T>(o => {
+      if (disposal !== undefined) {
+        o.error(new RxPondDisposedError(operation))
+        return
+      }
+      const end = () =>
+        ending === 'complete'
+          ? o.complete()
+          : o.error(new RxPondDisposedError(operation))
+      active.add(end)
+      const sub = source.subscribe(o)
+      return () => {
+        active.delete(end)
+        sub.unsubscribe()
+      }
+    })
+
+  const guard = <T>(
+    operation: string,
+    ending: Ending,
+    f: () => Observable<T>,
+  ): Observable<T> => {
+    check(operation)
+    return track(operation, ending, f())
+  }
+
+  const events = (): RxEventFn => {
+    check('events')
+    const inner = rxPond.events()
+    return {
+      currentOffsets: () =>
+        guard('currentOffsets', 'error', () => inner.currentOffsets()),
+      queryKnownRange: query =>
+        guard('queryKnownRange', 'error', () => inner.queryKnownRange(query)),
+      queryKnownRangeChunked: (query, chunkSize) =>
+        guard('queryKnownRangeChunked', 'error', () =>
+          inner.queryKnownRangeChunked(query, chunkSize),
+        ),
+      processKnownRangeChunked: (query, chunkSize, process) =>
+        guard('processKnownRangeChunked', 'error', () =>
+          inner.processKnownRangeChunked(query, chunkSize, process),
+        ),
+      queryAllKnown: query =>
+        guard('queryAllKnown', 'error', () => inner.queryAllKnown(query)),
+      queryAllKnownChunked: (query, chunkSize) =>
+        guard('queryAllKnownChunked', 'error', () =>
+          inner.queryAllKnownChunked(query, chunkSize),
+        ),
+      processAllKnownChunked: (query, chunkSize, process) =>
+        guard('processAllKnownChunked', 'error', () =>
+          inner.processAllKnownChunked(query, chunkSize, process),
+        ),
+      subscribe: query =>
+        guard('subscribe', 'complete', () => inner.subscribe(query)),
+      subscribeFromCheckpoint: (query, store) =>
+        guard('subscribeFromCheckpoint', 'complete', () =>
+          inner.subscribeFromCheckpoint(query, store),
+        ),
+      catchUpAndFollow: (query, chunkSize) =>
+        guard('catchUpAndFollow', 'complete', () =>
+          inner.catchUpAndFollow(query, chunkSize),
+        ),
+      withDecoders: decoders => {
+        check('withDecoders')
+        const decoded = inner.withDecoders(decoders)
+        return {
+          queryKnownRange: query =>
+            guard('queryKnownRange', 'error', () =>
+              decoded.queryKnownRange(query),
+            ),
+          subscribe: query =>
+            guard('subscribe', 'complete', () => decoded.subscribe(query)),
+          invalid$: track('invalid$', 'complete', decoded.invalid$),
+        }
+      },
+      exportNdjson: (query, chunkSize) =>
+        guard('exportNdjson', 'error', () =>
+          inner.exportNdjson(query, chunkSize),
+        ),
+      importNdjson: (source, opts) =>
+        guard('importNdjson', 'error', () => inner.importNdjson(source, opts)),
+      observeEarliest: query =>
+        guard('observeEarliest', 'complete', () =>
+          inner.observeEarliest(query),
+        ),
+      observeLatest: query =>
+        guard('observeLatest', 'complete', () => inner.observeLatest(query)),
+      observeBestMatch: (query, shouldReplace) =>
+        guard('observeBestMatch', 'complete', () =>
+          inner.observeBestMatch(query, shouldReplace),
+        ),
+      observeUnorderedReduce: (query, reduce, initial) =>
+        guard('observeUnorderedReduce', 'complete', () =>
+          inner.observeUnorderedReduce(query, reduce, initial),
+        ),
+      emit: taggedEvents =>
+        guard('emit', 'error', () => inner.emit(taggedEvents)),
+    }
+  }
+
+  // No spreading, so that getters like `originalPond` of resilient ponds are not evaluated early.
+  return {
+    emit: (tags, event) =>
+      guard('emit', 'error', () => rxPond.emit(tags, event)),
+
+    observe: fish => guard('observe', 'complete', () => rxPond.observe(fish)),
+
+    observeRxFish: fish =>
+      guard('observeRxFish', 'complete', () => rxPond.observeRxFish(fish)),
+
+    observeAll: (seedEventsSelector, makeFish, opts) =>
+      guard('observeAll', 'complete', () =>
+        rxPond.observeAll(seedEventsSelector, makeFish, opts),
+      ),
+
+    observeAllChanges: (seedEventsSelector, makeFish, opts) =>
+      guard('observeAllChanges', 'complete', () =>
+        rxPond.observeAllChanges(seedEventsSelector, makeFish, opts),
+      ),
+
+    observeJoined: (fishes, project) =>
+      guard('observeJoined', 'complete', () =>
+        rxPond.observeJoined(fishes, project),
+      ),
+
+    observeOne: (seedEventSelector, makeFish) =>
+      guard('observeOne', 'complete', () =>
+        rxPond.observeOne(seedEventSelector, makeFish),
+      ),
+
+    observeCached: (fish, opts) =>
+      guard('observeCached', 'complete', () =>
+        rxPond.observeCached(fish, opts),
+      ),
+
+    observeOneCached: (seedEventSelector, makeFish, opts) =>
+      guard('observeOneCached', 'complete', () =>
+        rxPond.observeOneCached(seedEventSelector, makeFish, opts),
+      ),
+
+    run: (fish, fn) => guard('run', 'error', () => rxPond.run(fish, fn)),
+
+    keepRunning: (fish, fn, autoCancel) => {
+      check('keepRunning')
+      const cancel = rxPond.keepRunning(fish, fn, autoCancel)
+      cancels.add(cancel)
+      return () => {
+        cancels.delete(cancel)
+        cancel()
+      }
+    },
+
+    keepRunning$: (fish, fn, autoCancel) =>
+      guard('keepRunning$', 'complete', () =>
+        rxPond.keepRunning$(fish, fn, autoCancel),
+      ),
+
+    dispatch: (handler, command, opts) =>
+      guard('dispatch', 'error', () => rxPond.dispatch(handler, command, opts)),
+
+    outbox: opts => {
+      check('outbox')
+      const outbox = rxPond.outbox(opts)
+      outboxes.add(outbox)
+      return {
+        ...outbox,
+        dispose: () => {
+          outboxes.delete(outbox)
+          outbox.dispose()
+        },
+      }
+    },
+
+    dispose: () => {
+      if (disposal === undefined) {
+        // Set first, so that anything triggered by the teardown cannot register anew.
+        disposal = Promise.resolve()
+        outboxes.forEach(outbox => outbox.dispose())
+        outboxes.clear()
+        cancels.forEach(cancel => cancel())
+        cancels.clear()
+        // Ending a subscription removes it from `active`.
+        Array.from(active).forEach(end => end())
+        disposal = rxPond.dispose()
+      }
+      return disposal
+    },
+
+    info: () => {
+      check('info')
+      return rxPond.info()
+    },
+
+    getPondState: () =>
+      guard('getPondState', 'complete', () => rxPond.getPondState()),
+
+    // Completing would look like the sync has finished.
+    waitForSwarmSync: () =>
+      guard('waitForSwarmSync', 'error', () => rxPond.waitForSwarmSync()),
+
+    readiness$: track('readiness$', 'complete', rxPond.readiness$),
+
+    health$: track('health$', 'complete', rxPond.health$),
+
+    whenSynced: () => {
+      check('whenSynced')
+      return rxPond.whenSynced()
+    },
+
+    events,
+
+    get originalPond() {
+      return rxPond.originalPond
+    },
+  }
+}
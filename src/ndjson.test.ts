@@ -0,0 +1,227 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Metadata, Tag } from '@actyx/pond'
+import * as buffer from 'buffer'
+import { PassThrough } from 'stream'
+import { Subject } from 'rxjs'
+import { Ndjson, RxPond, RxPondError } from '.'
+import { first, toArray } from 'rxjs/operators'
+import { mkImportNdjson } from './ndjson'
+
+// Jest's Node environment does not expose the global `Blob`.
+const NodeBlob = ((buffer as unknown) as { Blob: typeof Blob }).Blob
+
+const MachineTag = Tag<string>('machine')
+const OrderTag = Tag<string>('order')
+
+const mkSourcePond = () => {
+  const pond = RxPond.test()
+  pond.directlyPushEvents([
+    { tags: ['machine', 'machine:m1'], payload: 'started' },
+    { tags: ['order'], payload: 'o1' },
+    { tags: ['machine', 'machine:m1'], payload: 'stopped' },
+  ])
+  return pond
+}
+
+const exportAll = (pond: RxPond) =>
+  pond
+    .events()
+    .exportNdjson({}, 2)
+    .pipe(toArray())
+    .toPromise()
+    .then(pieces => pieces.join(''))
+
+const payloads = async (pond: RxPond) => {
+  const { events } = await pond
+    .events()
+    .queryAllKnown({})
+    .toPromise()
+  return events.map(e => [[...e.meta.tags].sort(), e.payload])
+}
+
+describe('NDJSON export', () => {
+  it('writes one line per event with tags, payload and metadata', async () => {
+    const pond = mkSourcePond()
+    const ndjson = await exportAll(pond)
+    pond.dispose()
+
+    const lines = ndjson.trim().split('\n')
+    expect(lines.length).toEqual(3)
+    expect(JSON.parse(lines[0])).toMatchObject({
+      tags: ['machine', 'machine:m1'],
+      payload: 'started',
+      meta: { stream: 'TEST-REMOTE-0', offset: 0, lamport: 1 },
+    })
+  })
+
+  it('exports a range query', async () => {
+    const pond = mkSourcePond()
+    const upperBound = await pond
+      .events()
+      .currentOffsets()
+      .toPromise()
+    const pieces = await pond
+      .events()
+      .exportNdjson({ query: OrderTag, upperBound })
+      .pipe(toArray())
+      .toPromise()
+    pond.dispose()
+    expect(
+      pieces
+        .join('')
+        .trim()
+        .split('\n').length,
+    ).toEqual(1)
+  })
+
+  it('writes to Node streams', async () => {
+    const pond = mkSourcePond()
+    const stream = new PassThrough()
+    const written: string[] = []
+    stream.on('data', chunk => written.push(chunk.toString()))
+    await pond
+      .events()
+      .exportNdjson({ query: MachineTag })
+      .pipe(Ndjson.writeTo(stream))
+      .toPromise()
+    pond.dispose()
+    expect(
+      written
+        .join('')
+        .trim()
+        .split('\n').length,
+    ).toEqual(2)
+  })
+})
+
+describe('NDJSON import', () => {
+  it('re-emits exported events in batches, filtering and renaming tags', async () => {
+    const source = mkSourcePond()
+    const ndjson = await exportAll(source)
+    source.dispose()
+
+    const pond = RxPond.test()
+    const progress = await pond
+      .events()
+      .importNdjson(ndjson, {
+        batchSize: 1,
+        includeTags: ['machine'],
+        renameTags: { 'machine:m1': 'machine:m2' },
+      })
+      .pipe(toArray())
+      .toPromise()
+    const imported = await payloads(pond)
+    pond.dispose()
+
+    expect(progress.map(p => p.emitted)).toEqual([1, 2])
+    expect(progress[1]).toEqual({
+      read: 3,
+      emitted: 2,
+      skipped: 1,
+      dryRun: false,
+    })
+    expect(imported).toEqual([
+      [['machine', 'machine:m2'], 'started'],
+      [['machine', 'machine:m2'], 'stopped'],
+    ])
+  })
+
+  it('reads Blobs and Node streams', async () => {
+    const source = mkSourcePond()
+    const ndjson = await exportAll(source)
+    source.dispose()
+
+    const fromBlob = RxPond.test()
+    await fromBlob
+      .events()
+      .importNdjson(new NodeBlob([ndjson]))
+      .toPromise()
+
+    const fromStream = RxPond.test()
+    const stream = new PassThrough()
+    const imported = fromStream
+      .events()
+      .importNdjson(stream)
+      .toPromise()
+    // Split within a line to check that lines are put back together.
+    stream.write(ndjson.slice(0, 10))
+    stream.end(ndjson.slice(10))
+    await imported
+
+    const expected = [
+      [['machine', 'machine:m1'], 'started'],
+      [['order'], 'o1'],
+      [['machine', 'machine:m1'], 'stopped'],
+    ]
+    expect(await payloads(fromBlob)).toEqual(expected)
+    expect(await payloads(fromStream)).toEqual(expected)
+    fromBlob.dispose()
+    fromStream.dispose()
+  })
+
+  it('pauses Node streams while a batch is being emitted', async () => {
+    const persisted = new Subject<Metadata[]>()
+    let batches = 0
+    const importNdjson = mkImportNdjson(() => {
+      batches += 1
+      return persisted.pipe(first())
+    })
+    const stream = new PassThrough()
+    const imported = importNdjson(stream, { batchSize: 1 }).toPromise()
+
+    stream.write('{"tags":["a"],"payload":1}\n')
+    await new Promise(res => setTimeout(res, 50))
+    expect(batches).toEqual(1)
+    expect(stream.isPaused()).toBe(true)
+
+    persisted.next([])
+    expect(stream.isPaused()).toBe(false)
+    stream.end()
+    expect(await imported).toMatchObject({ read: 1, emitted: 1 })
+  })
+
+  it('does not emit in dry-run mode', async () => {
+    const source = mkSourcePond()
+    const ndjson = await exportAll(source)
+    source.dispose()
+
+    const pond = RxPond.test()
+    const progress = await pond
+      .events()
+      .importNdjson(ndjson, { dryRun: true })
+      .toPromise()
+    const imported = await payloads(pond)
+    pond.dispose()
+
+    expect(progress).toEqual({ read: 3, emitted: 3, skipped: 0, dryRun: true })
+    expect(imported).toEqual([])
+  })
+
+  it('errors with an RxPondError on malformed lines', async () => {
+    const pond = RxPond.test()
+    const err = await pond
+      .events()
+      .importNdjson('{"tags":[],"payload":1}\nnot json\n')
+      .toPromise()
+      .catch(e => e)
+    pond.dispose()
+
+    expect(err).toBeInstanceOf(RxPondError)
+    expect(err.operation).toEqual('importNdjson')
+    expect(err.message).toContain('line 2 is not valid JSON')
+  })
+})
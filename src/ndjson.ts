@@ -0,0 +1,339 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  AutoCappedQuery,
+  EventChunk,
+  Metadata,
+  RangeQuery,
+  TaggedEvent,
+} from '@actyx/pond'
+import {
+  BehaviorSubject,
+  concat,
+  defer,
+  EMPTY,
+  from,
+  Observable,
+  of,
+  Subscription,
+  throwError,
+} from 'rxjs'
+import {
+  bufferCount,
+  catchError,
+  concatMap,
+  first,
+  map,
+  mergeMap,
+  tap,
+  toArray,
+} from 'rxjs/operators'
+import { RxPondError, rxPondError } from './errors'
+
+/** One line of an NDJSON export: an event with its tags, payload and metadata. */
+export type NdjsonEvent = Readonly<{
+  tags: ReadonlyArray<string>
+  payload: unknown
+  meta: Omit<Metadata, 'tags' | 'timestampAsDate'>
+}>
+
+/** The parts of a Node.js `Readable` needed for importing. */
+export type ReadableLike = {
+  on(event: 'data', listener: (chunk: string | Uint8Array) => void): unknown
+  on(event: 'end', listener: () => void): unknown
+  on(event: 'error', listener: (err: unknown) => void): unknown
+  removeListener(event: string, listener: (...args: any[]) => void): unknown
+  pause(): unknown
+  resume(): unknown
+}
+
+/** The parts of a Node.js `Writable` needed for exporting. */
+export type WritableLike = {
+  write(chunk: string): boolean
+  once(event: 'drain', listener: () => void): unknown
+  end(): unknown
+}
+
+/** An NDJSON document to import: its text, a browser `Blob` or a Node.js `Readable`. */
+export type NdjsonSource = string | Blob | ReadableLike
+
+/** Options for importing events from NDJSON. */
+export type ImportOpts = Readonly<{
+  /** Number of events to emit at once, 500 by default. */
+  batchSize?: number
+  /** Only import events with at least one of these tags (before renaming). All events by default. */
+  includeTags?: ReadonlyArray<string>
+  /** Tags to replace, e.g. `{ machine: 'test-machine' }`. */
+  renameTags?: Readonly<Record<string, string>>
+  /** Read and filter the events, but do not emit them. */
+  dryRun?: boolean
+}>
+
+/** Progress of an import, reported after each batch. */
+export type ImportProgress = Readonly<{
+  /** Number of events read so far. */
+  read: number
+  /** Number of events emitted so far, or that would have been emitted in a dry run. */
+  emitted: number
+  /** Number of events skipped so far because of `includeTags`. */
+  skipped: number
+  dryRun: boolean
+}>
+
+/** Size of the slices in which `Blob`s are read. */
+const blobSliceSize = 1024 * 1024
+
+const toLine = ({ payload, meta }: EventChunk['events'][number]): string => {
+  const { tags, timestampAsDate: _, ...rest } = meta
+  const event: NdjsonEvent = { tags, payload, meta: rest }
+  return JSON.stringify(event) + '\n'
+}
+
+const isRangeQuery = (
+  query: RangeQuery | AutoCappedQuery,
+): query is RangeQuery => (query as RangeQuery).upperBound !== undefined
+
+/**
+ * Create the `exportNdjson` function of an `RxEventFn`.
+ */
+export const mkExportNdjson = (
+  queryKnownRangeChunked: (
+    query: RangeQuery,
+    chunkSize: number,
+  ) => Observable<EventChunk>,
+  queryAllKnownChunked: (
+    query: AutoCappedQuery,
+    chunkSize: number,
+  ) => Observable<EventChunk>,
+) => (
+  query: RangeQuery | AutoCappedQuery,
+  chunkSize = 1000,
+): Observable<string> =>
+  (isRangeQuery(query)
+    ? queryKnownRangeChunked(query, chunkSize)
+    : queryAllKnownChunked(query, chunkSize)
+  ).pipe(map(chunk => chunk.events.map(toLine).join('')))
+
+// Checked structurally, as `Blob` is not a global in all environments.
+const isBlob = (source: Blob | ReadableLike): source is Blob =>
+  typeof (source as Blob).arrayBuffer === 'function' &&
+  typeof (source as Blob).slice === 'function'
+
+/**
+ * Decode the source into text, piece by piece. Before reading another piece, wait for `ready`
+ * to emit once, so that the source is not read faster than its events are emitted.
+ */
+const readText = (
+  source: NdjsonSource,
+  ready: Observable<unknown>,
+): Observable<string> => {
+  if (typeof source === 'string') {
+    return of(source)
+  }
+  if (isBlob(source)) {
+    return defer(() => {
+      const decoder = new TextDecoder()
+      const slices = Math.ceil(source.size / blobSliceSize)
+      return from(Array.from({ length: slices }, (_, i) => i)).pipe(
+        concatMap(i =>
+          ready.pipe(
+            concatMap(() =>
+              source
+                .slice(i * blobSliceSize, (i + 1) * blobSliceSize)
+                .arrayBuffer(),
+            ),
+          ),
+        ),
+        map((buffer, i) => decoder.decode(buffer, { stream: i < slices - 1 })),
+      )
+    })
+  }
+  const readable = source as ReadableLike
+  return new Observable<string>(o => {
+    const decoder = new TextDecoder()
+    let resuming = Subscription.EMPTY
+    const onData = (chunk: string | Uint8Array) => {
+      readable.pause()
+      o.next(
+        typeof chunk === 'string'
+          ? chunk
+          : decoder.decode(chunk, { stream: true }),
+      )
+      resuming = ready.subscribe(() => readable.resume())
+    }
+    const onEnd = () => {
+      o.next(decoder.decode())
+      o.complete()
+    }
+    const onError = (err: unknown) => o.error(err)
+    readable.on('data', onData)
+    readable.on('end', onEnd)
+    readable.on('error', onError)
+    return () => {
+      resuming.unsubscribe()
+      readable.removeListener('data', onData)
+      readable.removeListener('end', onEnd)
+      readable.removeListener('error', onError)
+    }
+  })
+}
+
+/** Split text arriving in pieces into lines. */
+const splitLines = (text: Observable<string>): Observable<string> =>
+  new Observable<string>(o => {
+    let rest = ''
+    return text.subscribe(
+      piece => {
+        const lines = (rest + piece).split('\n')
+        rest = lines.pop() || ''
+        lines.forEach(line => o.next(line))
+      },
+      err => o.error(err),
+      () => {
+        o.next(rest)
+        o.complete()
+      },
+    )
+  })
+
+const parseLine = (line: string, lineNumber: number): NdjsonEvent => {
+  let event
+  try {
+    event = JSON.parse(line)
+  } catch (err) {
+    throw new Error(`line ${lineNumber} is not valid JSON: ${err.message}`)
+  }
+  if (
+    typeof event !== 'object' ||
+    event === null ||
+    !Array.isArray(event.tags)
+  ) {
+    throw new Error(`line ${lineNumber} is not an exported event`)
+  }
+  return event
+}
+
+/**
+ * Create the `importNdjson` function of an `RxEventFn`.
+ */
+export const mkImportNdjson = (
+  emit: (events: ReadonlyArray<TaggedEvent>) => Observable<Metadata[]>,
+) => (
+  source: NdjsonSource,
+  opts: ImportOpts = {},
+): Observable<ImportProgress> => {
+  const { batchSize = 500, includeTags, renameTags = {}, dryRun = false } = opts
+  const toError = rxPondError('importNdjson')
+  const included = (tags: ReadonlyArray<string>) =>
+    includeTags === undefined || tags.some(tag => includeTags.includes(tag))
+
+  return defer(() => {
+    let progress: ImportProgress = { read: 0, emitted: 0, skipped: 0, dryRun }
+    let reported: ImportProgress | undefined = undefined
+    const report = () => {
+      reported = progress
+      return progress
+    }
+
+    // Number of events read but not yet emitted; reading pauses while a whole batch is waiting.
+    const queued$ = new BehaviorSubject(0)
+    const ready = queued$.pipe(first(queued => queued < batchSize))
+
+    let lineNumber = 0
+    const events = splitLines(readText(source, ready)).pipe(
+      mergeMap(line => {
+        lineNumber += 1
+        if (line.trim() === '') {
+          return []
+        }
+        const { tags, payload } = parseLine(line, lineNumber)
+        progress = { ...progress, read: progress.read + 1 }
+        if (!included(tags)) {
+          progress = { ...progress, skipped: progress.skipped + 1 }
+          return []
+        }
+        const event: TaggedEvent = {
+          tags: tags.map(tag =>
+            renameTags[tag] !== undefined ? renameTags[tag] : tag,
+          ),
+          event: payload,
+        }
+        return [event]
+      }),
+      tap(() => queued$.next(queued$.getValue() + 1)),
+    )
+
+    return concat(
+      events.pipe(
+        bufferCount(batchSize),
+        concatMap(batch => {
+          const emitted: Observable<unknown> = dryRun
+            ? of(undefined)
+            : emit(batch)
+          return emitted.pipe(
+            map(() => {
+              queued$.next(queued$.getValue() - batch.length)
+              progress = {
+                ...progress,
+                emitted: progress.emitted + batch.length,
+              }
+              return report()
+            }),
+          )
+        }),
+      ),
+      // Without any events to emit, report once at the end.
+      defer(() => (reported !== progress ? of(report()) : EMPTY)),
+    )
+  }).pipe(
+    catchError(err =>
+      throwError(err instanceof RxPondError ? err : toError(err)),
+    ),
+  )
+}
+
+/** Helpers for writing the output of `exportNdjson`. */
+export const Ndjson = {
+  /** Collect the whole export into a `Blob`, e.g. for downloading it in the browser. */
+  toBlob: (ndjson: Observable<string>): Observable<Blob> =>
+    ndjson.pipe(
+      toArray(),
+      map(parts => new Blob(parts, { type: 'application/x-ndjson' })),
+    ),
+
+  /**
+   * Write the whole export to a Node.js `Writable`, e.g. a file stream, waiting for it to drain
+   * when its buffer is full. The stream is ended after the last event.
+   */
+  writeTo: (writable: WritableLike) => (
+    ndjson: Observable<string>,
+  ): Observable<void> =>
+    concat(
+      ndjson.pipe(
+        concatMap(text =>
+          writable.write(text)
+            ? EMPTY
+            : new Observable<never>(o => {
+                writable.once('drain', () => o.complete())
+              }),
+        ),
+      ),
+      defer(() => {
+        writable.end()
+        return EMPTY
+      }),
+    ),
+}
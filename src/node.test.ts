@@ -0,0 +1,55 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { promises as fs } from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { FileStore } from './node'
+
+const withTmpDir = async (f: (dir: string) => Promise<void>) => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'rx-pond-'))
+  try {
+    await f(dir)
+  } finally {
+    await Promise.all(
+      (await fs.readdir(dir)).map(file => fs.unlink(path.join(dir, file))),
+    )
+    await fs.rmdir(dir)
+  }
+}
+
+describe('FileStore', () => {
+  it('keeps checkpoints on disk', () =>
+    withTmpDir(async dir => {
+      const file = path.join(dir, 'checkpoint.json')
+      const store = FileStore.checkpoint(file)
+
+      expect(await store.load()).toBeUndefined()
+      await store.save({ a: 1, b: 2 })
+      expect(await FileStore.checkpoint(file).load()).toEqual({ a: 1, b: 2 })
+    }))
+
+  it('keeps one file per snapshot', () =>
+    withTmpDir(async dir => {
+      const store = FileStore.snapshots(dir)
+      const snapshot = { version: 1, state: ['a'], savedAt: 0 }
+
+      await store.save('fish:a/b', snapshot)
+      expect(await FileStore.snapshots(dir).load('fish:a/b')).toEqual(snapshot)
+      await store.remove('fish:a/b')
+      await store.remove('fish:a/b')
+      expect(await store.load('fish:a/b')).toBeUndefined()
+    }))
+})
@@ -0,0 +1,68 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { promises as fs } from 'fs'
+import { CheckpointStore, OutboxStore, Snapshot, SnapshotStore } from './index'
+import { JsonStore } from './stores'
+
+/** Keep one value as JSON in the file `path`. */
+const fileStore = <T>(path: string): JsonStore<T> => ({
+  load: async () => {
+    try {
+      return JSON.parse(await fs.readFile(path, 'utf8'))
+    } catch (err) {
+      if (err.code === 'ENOENT') {
+        return undefined
+      }
+      throw err
+    }
+  },
+  save: async value => {
+    // Write to a temporary file first, so that a crash never leaves a truncated file behind.
+    const tmp = `${path}.tmp`
+    await fs.writeFile(tmp, JSON.stringify(value), 'utf8')
+    await fs.rename(tmp, path)
+  },
+})
+
+/**
+ * Factories for stores keeping their data in files. Only available on Node.js, which is why they
+ * are not part of the main entry point.
+ */
+export const FileStore = {
+  /** Keep the checkpoint of `subscribeFromCheckpoint` as JSON in the file `path`. */
+  checkpoint: (path: string): CheckpointStore => fileStore(path),
+
+  /** Keep the queue of an outbox as JSON in the file `path`. */
+  outbox: (path: string): OutboxStore => fileStore(path),
+
+  /** Keep snapshots as JSON files in the directory `dir`, one per key. */
+  snapshots: (dir: string): SnapshotStore => {
+    const pathOf = (key: string) => `${dir}/${encodeURIComponent(key)}.json`
+    return {
+      load: key => fileStore<Snapshot>(pathOf(key)).load(),
+      save: (key, snapshot) => fileStore<Snapshot>(pathOf(key)).save(snapshot),
+      remove: async key => {
+        try {
+          await fs.unlink(pathOf(key))
+        } catch (err) {
+          if (err.code !== 'ENOENT') {
+            throw err
+          }
+        }
+      },
+    }
+  },
+}
@@ -0,0 +1,145 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Fish, FishId, Milliseconds, Tag, Timestamp } from '@actyx/pond'
+import { RxPond, toSnapshot } from '.'
+import { first, take, toArray } from 'rxjs/operators'
+
+const SeedTag = Tag<string>('seed')
+const ItemTag = Tag<string>('item')
+const mkFish = (id: string): Fish<string[], string> => ({
+  fishId: FishId.of('ItemFish', id, 1),
+  initialState: [],
+  onEvent: (state, e) => [...state, e],
+  where: ItemTag.withId(id),
+})
+
+describe('observeAllChanges', () => {
+  it('emits all known Fish as added, then updates and new Fish', async () => {
+    const pond = RxPond.test()
+    pond.directlyPushEvents([
+      { tags: ['seed'], payload: 'a' },
+      { tags: ['seed'], payload: 'b' },
+      { tags: ['seed'], payload: 'a' },
+      { tags: ['item', 'item:a'], payload: 'a1' },
+    ])
+
+    const changes = pond
+      .observeAllChanges(SeedTag, mkFish)
+      .pipe(take(3), toArray())
+      .toPromise()
+    await pond
+      .observeAllChanges(SeedTag, mkFish)
+      .pipe(first())
+      .toPromise()
+    pond.directlyPushEvents([{ tags: ['item', 'item:b'], payload: 'b1' }])
+    await pond
+      .observe(mkFish('b'))
+      .pipe(first(s => s.length === 1))
+      .toPromise()
+    pond.directlyPushEvents([{ tags: ['seed'], payload: 'c' }])
+
+    const result = await changes
+    pond.dispose()
+    expect(result).toEqual([
+      [
+        {
+          type: 'added',
+          key: FishId.canonical(mkFish('a').fishId),
+          fishId: mkFish('a').fishId,
+          state: ['a1'],
+        },
+        {
+          type: 'added',
+          key: FishId.canonical(mkFish('b').fishId),
+          fishId: mkFish('b').fishId,
+          state: [],
+        },
+      ],
+      [
+        {
+          type: 'updated',
+          key: FishId.canonical(mkFish('b').fishId),
+          fishId: mkFish('b').fishId,
+          state: ['b1'],
+        },
+      ],
+      [
+        {
+          type: 'added',
+          key: FishId.canonical(mkFish('c').fishId),
+          fishId: mkFish('c').fishId,
+          state: [],
+        },
+      ],
+    ])
+  })
+
+  it('emits an empty change set when there are no Fish', async () => {
+    const pond = RxPond.test()
+    const changes = await pond
+      .observeAllChanges(SeedTag, mkFish)
+      .pipe(first())
+      .toPromise()
+    pond.dispose()
+    expect(changes).toEqual([])
+  })
+
+  it('removes Fish when their seed event expires', async () => {
+    const pond = RxPond.test()
+    const now = Timestamp.now()
+    pond.directlyPushEvents([
+      { tags: ['seed'], payload: 'old', timestamp: now - 60_000_000 },
+      { tags: ['seed'], payload: 'new', timestamp: now },
+    ])
+
+    const changes = await pond
+      .observeAllChanges(SeedTag, mkFish, {
+        expireAfterSeed: Milliseconds.of(200),
+      })
+      .pipe(take(2), toArray())
+      .toPromise()
+    pond.dispose()
+    expect(changes.map(c => c.map(({ type, key }) => [type, key]))).toEqual([
+      [['added', FishId.canonical(mkFish('new').fishId)]],
+      [['removed', FishId.canonical(mkFish('new').fishId)]],
+    ])
+  })
+
+  it('materializes changes into a snapshot', async () => {
+    const pond = RxPond.test()
+    pond.directlyPushEvents([
+      { tags: ['seed'], payload: 'a' },
+      { tags: ['item', 'item:a'], payload: 'a1' },
+    ])
+
+    const snapshots = pond
+      .observeAllChanges(SeedTag, mkFish)
+      .pipe(toSnapshot(), take(2), toArray())
+      .toPromise()
+    await pond
+      .observeAll(SeedTag, mkFish, {})
+      .pipe(first(states => states.length === 1))
+      .toPromise()
+    pond.directlyPushEvents([{ tags: ['item', 'item:a'], payload: 'a2' }])
+
+    const result = await snapshots
+    pond.dispose()
+    expect(result).toEqual([
+      new Map([[FishId.canonical(mkFish('a').fishId), ['a1']]]),
+      new Map([[FishId.canonical(mkFish('a').fishId), ['a1', 'a2']]]),
+    ])
+  })
+})
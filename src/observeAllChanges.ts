@@ -0,0 +1,263 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  ActyxEvent,
+  Fish,
+  FishId,
+  Milliseconds,
+  ObserveAllOpts,
+  Pond,
+  Timestamp,
+  Where,
+} from '@actyx/pond'
+import { Observable, OperatorFunction, Subscription } from 'rxjs'
+import { scan } from 'rxjs/operators'
+import { rxPondError } from './errors'
+import { mkEvents } from './events'
+
+/** Change of a single Fish within the set observed by `observeAllChanges`. */
+export type FishChange<S> =
+  /** A Fish has joined the set; `state` is its first known state. */
+  | Readonly<{ type: 'added'; key: string; fishId: FishId; state: S }>
+  /** The state of a Fish in the set has changed. */
+  | Readonly<{ type: 'updated'; key: string; fishId: FishId; state: S }>
+  /** A Fish has left the set because its seed event expired. */
+  | Readonly<{ type: 'removed'; key: string; fishId: FishId }>
+
+/**
+ * Changes to the set of Fish observed by `observeAllChanges`, at most one per Fish.
+ * Fish are identified by `key`, the canonical representation of their `fishId`.
+ */
+export type FishChanges<S> = ReadonlyArray<FishChange<S>>
+
+type Entry = {
+  fishId: FishId
+  hasState: boolean
+  sub?: Subscription
+  expiresAt?: number
+  expiry?: ReturnType<typeof setTimeout>
+}
+
+/** Seed events are read in chunks of this size while catching up. */
+const seedChunkSize = 500
+
+/** Combine a change into the changes pending for the same Fish. */
+const coalesce = <S>(
+  previous: FishChange<S> | undefined,
+  next: FishChange<S>,
+): FishChange<S> | undefined => {
+  if (previous === undefined) {
+    return next
+  }
+  if (previous.type === 'added') {
+    return next.type === 'removed' ? undefined : { ...next, type: 'added' }
+  }
+  return next
+}
+
+/**
+ * Apply changes emitted by `observeAllChanges` to a snapshot of all Fish states, keyed by
+ * the canonical representation of their `fishId`. Emits a new `Map` for every change set.
+ */
+export const toSnapshot = <S>(): OperatorFunction<
+  FishChanges<S>,
+  ReadonlyMap<string, S>
+> =>
+  scan((snapshot: ReadonlyMap<string, S>, changes: FishChanges<S>) => {
+    const next = new Map(snapshot)
+    for (const change of changes) {
+      if (change.type === 'removed') {
+        next.delete(change.key)
+      } else {
+        next.set(change.key, change.state)
+      }
+    }
+    return next
+  }, new Map<string, S>())
+
+/**
+ * Create the `observeAllChanges` function of an `RxPond`.
+ *
+ * The set of Fish is built from the seed events like `Pond.observeAll` does it; every Fish is
+ * observed individually, so that changes can be attributed to it.
+ */
+export const mkObserveAllChanges = (pond: Pond) => <ESeed, S>(
+  seedEventsSelector: Where<ESeed>,
+  makeFish: (seedEvent: ESeed) => Fish<S, any> | undefined,
+  opts: ObserveAllOpts = {},
+): Observable<FishChanges<S>> =>
+  new Observable<FishChanges<S>>(o => {
+    const expireAfterSeed: Milliseconds | undefined =
+      opts.expireAfterSeed !== undefined
+        ? opts.expireAfterSeed
+        : opts.expireAfterFirst
+    const fishes = new Map<string, Entry>()
+    const pending = new Map<string, FishChange<S>>()
+    // Fish known when catching up, whose first state we wait for before the first emission.
+    let waitingFor: Set<string> | undefined = undefined
+    let ready = false
+    let flushScheduled = false
+
+    const flush = () => {
+      flushScheduled = false
+      if (!o.closed && (pending.size > 0 || !ready)) {
+        ready = true
+        o.next(Array.from(pending.values()))
+        pending.clear()
+      }
+    }
+
+    // Changes arriving in the same tick are emitted as one change set.
+    const scheduleFlush = () => {
+      if (
+        !flushScheduled &&
+        waitingFor !== undefined &&
+        waitingFor.size === 0
+      ) {
+        flushScheduled = true
+        Promise.resolve().then(flush)
+      }
+    }
+
+    const record = (key: string, change: FishChange<S>) => {
+      const coalesced = coalesce(pending.get(key), change)
+      if (coalesced !== undefined) {
+        pending.set(key, coalesced)
+      } else {
+        pending.delete(key)
+      }
+      scheduleFlush()
+    }
+
+    const remove = (key: string) => {
+      const entry = fishes.get(key)
+      if (entry === undefined) {
+        return
+      }
+      fishes.delete(key)
+      entry.sub && entry.sub.unsubscribe()
+      if (entry.hasState) {
+        record(key, { type: 'removed', key, fishId: entry.fishId })
+      }
+      if (waitingFor !== undefined && waitingFor.delete(key)) {
+        scheduleFlush()
+      }
+    }
+
+    const onSeed = (seed: ActyxEvent<ESeed>) => {
+      let fish: Fish<S, any> | undefined
+      try {
+        fish = makeFish(seed.payload)
+      } catch (err) {
+        o.error(
+          rxPondError('observeAllChanges', {
+            tags: seedEventsSelector.toString(),
+          })(err),
+        )
+        return
+      }
+      if (fish === undefined) {
+        return
+      }
+
+      const expiresAt =
+        expireAfterSeed !== undefined
+          ? Timestamp.toMilliseconds(seed.meta.timestampMicros) +
+            expireAfterSeed
+          : undefined
+      if (expiresAt !== undefined && expiresAt <= Date.now()) {
+        return
+      }
+
+      const key = FishId.canonical(fish.fishId)
+      let entry = fishes.get(key)
+      if (entry === undefined) {
+        const { fishId, where } = fish
+        const newEntry: Entry = { fishId, hasState: false }
+        entry = newEntry
+        fishes.set(key, newEntry)
+        newEntry.sub = observeFish(fish).subscribe(
+          state => {
+            record(key, {
+              type: newEntry.hasState ? 'updated' : 'added',
+              key,
+              fishId,
+              state,
+            })
+            newEntry.hasState = true
+            if (waitingFor !== undefined && waitingFor.delete(key)) {
+              scheduleFlush()
+            }
+          },
+          err =>
+            o.error(
+              rxPondError('observeAllChanges', {
+                fishId,
+                tags: where.toString(),
+              })(err),
+            ),
+        )
+      }
+
+      // Latest seed wins, like with `observeAll`.
+      if (
+        expiresAt !== undefined &&
+        (entry.expiresAt === undefined || expiresAt > entry.expiresAt)
+      ) {
+        entry.expiry !== undefined && clearTimeout(entry.expiry)
+        entry.expiresAt = expiresAt
+        entry.expiry = setTimeout(() => remove(key), expiresAt - Date.now())
+      }
+    }
+
+    const observeFish = (fish: Fish<S, any>) =>
+      new Observable<S>(so =>
+        pond.observe(
+          fish,
+          s => so.next(s),
+          err => so.error(err),
+        ),
+      )
+
+    const seedsSub = mkEvents(pond)
+      .catchUpAndFollow({ query: seedEventsSelector }, seedChunkSize)
+      .subscribe(
+        msg => {
+          if (msg.type === 'chunk') {
+            msg.chunk.events.forEach(e => onSeed(e as ActyxEvent<ESeed>))
+          } else if (msg.type === 'event') {
+            onSeed(msg.event as ActyxEvent<ESeed>)
+          } else {
+            waitingFor = new Set(
+              Array.from(fishes.entries())
+                .filter(([_, entry]) => !entry.hasState)
+                .map(([key]) => key),
+            )
+            scheduleFlush()
+          }
+        },
+        err => o.error(err),
+      )
+
+    return () => {
+      seedsSub.unsubscribe()
+      fishes.forEach(entry => {
+        entry.sub && entry.sub.unsubscribe()
+        entry.expiry !== undefined && clearTimeout(entry.expiry)
+      })
+      fishes.clear()
+    }
+  })
@@ -0,0 +1,155 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { PendingEmission, Pond, Tag } from '@actyx/pond'
+import { OutboxStore, RxPond, RxPondDisposedError } from '.'
+import { first, toArray } from 'rxjs/operators'
+
+const InputTag = Tag<string>('input')
+
+const failingEmission = (): PendingEmission => {
+  const failed = Promise.reject(new Error('connection lost'))
+  failed.catch(() => undefined)
+  return {
+    subscribe: () => undefined,
+    toPromise: () => failed,
+  }
+}
+
+const inputs = async (pond: RxPond) => {
+  const { events } = await pond
+    .events()
+    .queryAllKnown({ query: InputTag })
+    .toPromise()
+  return events.map(e => e.payload)
+}
+
+describe('outbox', () => {
+  it('reports queued and persisted emissions', async () => {
+    const pond = RxPond.test()
+    const outbox = pond.outbox()
+
+    const statuses = await outbox
+      .emit(InputTag, 'a')
+      .pipe(toArray())
+      .toPromise()
+    const pending = await outbox.pending$.pipe(first()).toPromise()
+    outbox.dispose()
+    pond.dispose()
+
+    expect(statuses.map(s => s.type)).toEqual(['queued', 'persisted'])
+    const [, persisted] = statuses
+    expect(persisted.type === 'persisted' && persisted.metadata.length).toEqual(
+      1,
+    )
+    expect(pending).toEqual([])
+  })
+
+  it('rejects emissions after the pond has been disposed of', async () => {
+    const pond = RxPond.test()
+    const outbox = pond.outbox()
+    await pond.dispose()
+
+    const emission = outbox.emit(InputTag, 'a').toPromise()
+    await expect(emission).rejects.toBeInstanceOf(RxPondDisposedError)
+  })
+
+  it('retries failed emissions in order', async () => {
+    const testPond = Pond.test()
+    jest
+      .spyOn(testPond.events(), 'emit')
+      .mockImplementationOnce(failingEmission)
+    const pond = RxPond.from(testPond)
+    const outbox = pond.outbox({ retryDelayMs: 10 })
+
+    const a = outbox.emit(InputTag, 'a').toPromise()
+    const b = outbox.emit(InputTag, 'b').toPromise()
+    const pending = await outbox.pending$
+      .pipe(first(entries => entries.length === 2))
+      .toPromise()
+    await Promise.all([a, b])
+    const emitted = await inputs(pond)
+    outbox.dispose()
+    pond.dispose()
+
+    expect(pending.map(e => e.events)).toEqual([
+      [InputTag.apply('a')],
+      [InputTag.apply('b')],
+    ])
+    expect(emitted).toEqual(['a', 'b'])
+  })
+
+  it('keeps queued emissions in the store for the next outbox', async () => {
+    const store = OutboxStore.inMemory()
+    const offlinePond = Pond.test()
+    jest.spyOn(offlinePond.events(), 'emit').mockImplementation(failingEmission)
+    const offline = RxPond.from(offlinePond)
+    const offlineOutbox = offline.outbox({ store, retryDelayMs: 60_000 })
+    await offlineOutbox
+      .emit(InputTag, 'a')
+      .pipe(first())
+      .toPromise()
+    await offlineOutbox
+      .emit(InputTag, 'b')
+      .pipe(first())
+      .toPromise()
+    offlineOutbox.dispose()
+    offline.dispose()
+
+    const pond = RxPond.test()
+    const outbox = pond.outbox({ store })
+    await outbox.pending$
+      .pipe(first(entries => entries.length === 0))
+      .toPromise()
+    const emitted = await inputs(pond)
+    outbox.dispose()
+    pond.dispose()
+
+    expect(emitted).toEqual(['a', 'b'])
+  })
+
+  it('gives up on emissions that keep failing and lets later ones through', async () => {
+    const testPond = Pond.test()
+    jest
+      .spyOn(testPond.events(), 'emit')
+      .mockImplementationOnce(failingEmission)
+      .mockImplementationOnce(failingEmission)
+    const pond = RxPond.from(testPond)
+    const outbox = pond.outbox({ retryDelayMs: 10, maxAttempts: 2 })
+
+    const a = outbox
+      .emit(InputTag, 'a')
+      .pipe(toArray())
+      .toPromise()
+    const b = outbox
+      .emit(InputTag, 'b')
+      .pipe(toArray())
+      .toPromise()
+    const [aStatuses, bStatuses] = await Promise.all([a, b])
+    const pending = await outbox.pending$.pipe(first()).toPromise()
+    const failed = aStatuses[1]
+    await outbox.drop(failed.id)
+    const afterDrop = await outbox.pending$.pipe(first()).toPromise()
+    const emitted = await inputs(pond)
+    outbox.dispose()
+    pond.dispose()
+
+    expect(aStatuses.map(s => s.type)).toEqual(['queued', 'failed'])
+    expect(bStatuses.map(s => s.type)).toEqual(['queued', 'persisted'])
+    expect(pending.map(e => e.id)).toEqual([failed.id])
+    expect(afterDrop).toEqual([])
+    expect(emitted).toEqual(['b'])
+  })
+})
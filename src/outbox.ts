@@ -0,0 +1,298 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Metadata, TaggedEvent, Tags } from '@actyx/pond'
+import {
+  BehaviorSubject,
+  concat,
+  from,
+  Observable,
+  ReplaySubject,
+  Subscription,
+  throwError,
+  TimeoutError,
+} from 'rxjs'
+import { ignoreElements, timeout } from 'rxjs/operators'
+import { RxPondDisposedError } from './errors'
+import { inMemoryStore, localStorageStore } from './stores'
+
+/** One queued emission: events that are emitted together. */
+export type OutboxEntry = Readonly<{
+  id: string
+  events: ReadonlyArray<TaggedEvent>
+  /** When the emission was queued, in milliseconds since the epoch. */
+  queuedAt: number
+}>
+
+/**
+ * Persistence for the emissions queued in an `Outbox`.
+ * Each store holds the queue of exactly one outbox.
+ */
+export type OutboxStore = {
+  /** Load the saved queue, or `undefined` if nothing has been saved yet. */
+  load: () => Promise<ReadonlyArray<OutboxEntry> | undefined>
+  /** Save the queue, replacing whatever was saved before. */
+  save: (entries: ReadonlyArray<OutboxEntry>) => Promise<void>
+}
+
+/** Factories for the `OutboxStore`s that come with RxPond. */
+export const OutboxStore = {
+  /** Keep the queue in memory only; it is lost when the process ends. */
+  inMemory: (): OutboxStore => inMemoryStore(),
+
+  /**
+   * Keep the queue as JSON in the browser’s `localStorage`.
+   *
+   * @param key     - Key to store the queue under.
+   * @param storage - Storage to use instead of `window.localStorage`.
+   */
+  localStorage: (
+    key: string,
+    storage?: Pick<Storage, 'getItem' | 'setItem'>,
+  ): OutboxStore => localStorageStore(key, storage),
+}
+
+/** Status of one emission through an `Outbox`. */
+export type EmissionStatus =
+  /** The emission has been saved to the outbox’s store. */
+  | Readonly<{ type: 'queued'; id: string }>
+  /** The events have been persisted by Actyx. */
+  | Readonly<{ type: 'persisted'; id: string; metadata: Metadata[] }>
+  /**
+   * Attempts to emit failed `maxAttempts` times, so this outbox has given up on the emission.
+   * It stays in the store, to be tried again by the next outbox using it, unless it is dropped.
+   */
+  | Readonly<{ type: 'failed'; id: string; error: unknown }>
+
+/** Options for creating an `Outbox`. */
+export type OutboxOpts = Readonly<{
+  /** Where to keep queued emissions, in memory by default. */
+  store?: OutboxStore
+  /** Time after which an attempt to emit is considered failed, 10 seconds by default. */
+  attemptTimeoutMs?: number
+  /** Delay before retrying a failed attempt, 5 seconds by default. */
+  retryDelayMs?: number
+  /**
+   * Number of failed attempts after which an emission is given up, so that it no longer holds up
+   * the emissions queued after it, 5 by default. Attempts that timed out are not counted, since
+   * they are expected while there is no connection.
+   */
+  maxAttempts?: number
+}>
+
+/**
+ * Queue for emissions that must not get lost while there is no connection to Actyx.
+ *
+ * Emissions are saved to the store before they are attempted and are only removed once
+ * Actyx has persisted them. They are emitted one at a time, in the order they were queued,
+ * which preserves their order for every set of tags. An emission whose attempt timed out is
+ * tried again, so an event may be emitted twice in rare cases, but it is never lost.
+ * An emission that keeps failing, e.g. because Actyx rejects it, is given up after `maxAttempts`
+ * and skipped by this outbox, so later emissions overtake it.
+ */
+export type Outbox = Readonly<{
+  /**
+   * Queue a single event.
+   *
+   * @returns An Observable of the emission’s status, completing once the event has been persisted.
+   *          The emission happens whether or not the Observable is subscribed to.
+   *          Errors with an `RxPondDisposedError` if the outbox has been disposed of.
+   */
+  emit: <E>(tags: Tags<E>, event: E) => Observable<EmissionStatus>
+  /**
+   * Queue events to be emitted together.
+   *
+   * @returns An Observable of the emission’s status, completing once the events have been persisted.
+   *          The emission happens whether or not the Observable is subscribed to.
+   *          Errors with an `RxPondDisposedError` if the outbox has been disposed of.
+   */
+  emitEvents: (events: ReadonlyArray<TaggedEvent>) => Observable<EmissionStatus>
+  /**
+   * The emissions not yet persisted, oldest first, including those loaded from the store.
+   * Starts emitting once the store has been loaded.
+   */
+  pending$: Observable<ReadonlyArray<OutboxEntry>>
+  /**
+   * Remove an emission from the queue and the store without emitting it, e.g. one that has failed.
+   * Its status Observable completes. An attempt already in flight may still persist the events.
+   *
+   * @returns A Promise that resolves once the store has been updated.
+   */
+  drop: (id: string) => Promise<void>
+  /** Stop emitting. Queued emissions stay in the store, to be emitted by the next outbox using it. */
+  dispose: () => void
+}>
+
+const noop = () => undefined
+
+let nextId = 0
+const mkId = () =>
+  `${Date.now().toString(36)}-${(nextId++).toString(36)}-${Math.random()
+    .toString(36)
+    .slice(2, 8)}`
+
+/**
+ * Create the `outbox` function of an `RxPond`.
+ *
+ * @param emit        - Emission of events, failing or hanging while there is no connection.
+ * @param reconnected - Notifies that the connection has come back, to retry right away.
+ *                      A plain `RxPond` passes `NEVER`, so that only `retryDelayMs` drives its retries.
+ */
+export const mkOutbox = (
+  emit: (events: ReadonlyArray<TaggedEvent>) => Observable<Metadata[]>,
+  reconnected: Observable<unknown>,
+) => (opts: OutboxOpts = {}): Outbox => {
+  const {
+    store = OutboxStore.inMemory(),
+    attemptTimeoutMs = 10_000,
+    retryDelayMs = 5_000,
+    maxAttempts = 5,
+  } = opts
+  let queue: ReadonlyArray<OutboxEntry> = []
+  const pending$ = new BehaviorSubject(queue)
+  const statuses: Record<string, ReplaySubject<EmissionStatus>> = {}
+  // Counted per outbox, so that the next one using the store tries failed emissions again.
+  const failedAttempts: Record<string, number> = {}
+  let loaded = false
+  let disposed = false
+  let attempt: Subscription | undefined = undefined
+  let retryTimer: ReturnType<typeof setTimeout> | undefined = undefined
+
+  const update = (entries: ReadonlyArray<OutboxEntry>) => {
+    queue = entries
+    pending$.next(queue)
+  }
+
+  const loading = store.load().then(entries => {
+    // Entries from the store are older than anything queued in the meantime.
+    update([...(entries || []), ...queue])
+    loaded = true
+  })
+  // Saves are chained after loading, so that they reach the store in order and never
+  // overwrite entries that have not been loaded yet.
+  let saved = loading
+  const save = () => {
+    const previous = saved
+    saved = loading
+      .then(() => previous.catch(noop))
+      .then(() => store.save(queue))
+    return saved
+  }
+
+  const settle = (id: string, status: EmissionStatus) => {
+    const subject = statuses[id]
+    if (subject !== undefined) {
+      delete statuses[id]
+      subject.next(status)
+      subject.complete()
+    }
+  }
+
+  const flush = () => {
+    if (retryTimer !== undefined) {
+      clearTimeout(retryTimer)
+      retryTimer = undefined
+    }
+    const entry = queue.find(e => (failedAttempts[e.id] || 0) < maxAttempts)
+    if (!loaded || disposed || attempt !== undefined || entry === undefined) {
+      return
+    }
+    attempt = emit(entry.events)
+      .pipe(timeout(attemptTimeoutMs))
+      .subscribe(
+        metadata => {
+          attempt = undefined
+          delete failedAttempts[entry.id]
+          update(queue.filter(e => e.id !== entry.id))
+          // The events have been persisted even if saving the queue fails.
+          save()
+            .catch(noop)
+            .then(() =>
+              settle(entry.id, { type: 'persisted', id: entry.id, metadata }),
+            )
+          flush()
+        },
+        err => {
+          attempt = undefined
+          if (disposed) {
+            return
+          }
+          if (!(err instanceof TimeoutError)) {
+            failedAttempts[entry.id] = (failedAttempts[entry.id] || 0) + 1
+            if (failedAttempts[entry.id] >= maxAttempts) {
+              settle(entry.id, { type: 'failed', id: entry.id, error: err })
+              flush()
+              return
+            }
+          }
+          retryTimer = setTimeout(flush, retryDelayMs)
+        },
+      )
+  }
+
+  const enqueue = (
+    operation: string,
+    events: ReadonlyArray<TaggedEvent>,
+  ): Observable<EmissionStatus> => {
+    // Nothing would emit it, and an in-memory store would lose it.
+    if (disposed) {
+      return throwError(new RxPondDisposedError(operation))
+    }
+    const entry: OutboxEntry = { id: mkId(), events, queuedAt: Date.now() }
+    const status = new ReplaySubject<EmissionStatus>()
+    statuses[entry.id] = status
+    update([...queue, entry])
+    save().then(
+      () => {
+        status.next({ type: 'queued', id: entry.id })
+        flush()
+      },
+      err => {
+        // Not durable, so not queued at all.
+        update(queue.filter(e => e.id !== entry.id))
+        delete statuses[entry.id]
+        status.error(err)
+      },
+    )
+    return status.asObservable()
+  }
+
+  loading.then(flush, err => pending$.error(err))
+  const reconnectedSub = reconnected.subscribe(() => flush())
+
+  return {
+    emit: (tags, event) => enqueue('outbox.emit', [tags.apply(event)]),
+    emitEvents: events => enqueue('outbox.emitEvents', events),
+    pending$: concat(from(loading).pipe(ignoreElements()), pending$),
+    drop: id =>
+      loading.then(() => {
+        delete failedAttempts[id]
+        update(queue.filter(e => e.id !== id))
+        const status = statuses[id]
+        if (status !== undefined) {
+          delete statuses[id]
+          status.complete()
+        }
+        return save()
+      }),
+    dispose: () => {
+      disposed = true
+      reconnectedSub.unsubscribe()
+      attempt && attempt.unsubscribe()
+      retryTimer !== undefined && clearTimeout(retryTimer)
+      pending$.complete()
+    },
+  }
+}
@@ -0,0 +1,259 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Fish, FishId, Pond, Tag } from '@actyx/pond'
+import * as React from 'react'
+import { act, create, ReactTestRenderer } from 'react-test-renderer'
+import { Observable } from 'rxjs'
+import { RxPond } from '.'
+import {
+  Loadable,
+  RxPondProvider,
+  useEventStream,
+  useFish,
+  useLatestEvent,
+  useRxPond,
+  useSyncProgress,
+} from './react'
+
+// Tell React that updates are wrapped in `act`.
+Object.assign(global, { IS_REACT_ACT_ENVIRONMENT: true })
+
+const InputTag = Tag<string>('input')
+const InputFish: Fish<string[], string> = {
+  fishId: FishId.of('InputFish', 'inputs', 1),
+  initialState: [],
+  onEvent: (state, e) => [...state, e],
+  where: InputTag,
+}
+const FailingFish: Fish<string[], string> = {
+  ...InputFish,
+  fishId: FishId.of('FailingFish', 'inputs', 1),
+  onEvent: () => {
+    throw new Error('boom')
+  },
+}
+
+const settle = () =>
+  act(
+    () => new Promise<void>(res => setTimeout(res, 50)),
+  )
+
+const show = <T,>(
+  loadable: Loadable<T>,
+  select: (value: T) => unknown,
+): string => {
+  switch (loadable.type) {
+    case 'loading':
+      return 'loading'
+    case 'value':
+      return String(JSON.stringify(select(loadable.value)))
+    case 'error':
+      return `error: ${(loadable.error as Error).message}`
+  }
+}
+
+const Show = <T,>({
+  use,
+  select = value => value,
+}: {
+  use: () => Loadable<T>
+  select?: (value: T) => unknown
+}) => <>{show(use(), select)}</>
+
+class ErrorBoundary extends React.Component<
+  { children?: React.ReactNode },
+  { error?: Error }
+> {
+  state: { error?: Error } = {}
+  static getDerivedStateFromError(error: Error) {
+    return { error }
+  }
+  render() {
+    return this.state.error
+      ? `caught: ${this.state.error.message}`
+      : this.props.children
+  }
+}
+
+const render = async (pond: RxPond, element: React.ReactElement) => {
+  let renderer: ReactTestRenderer | undefined = undefined
+  await act(async () => {
+    renderer = create(<RxPondProvider pond={pond}>{element}</RxPondProvider>)
+  })
+  return (renderer as unknown) as ReactTestRenderer
+}
+
+describe('React hooks', () => {
+  it('show the state of a Fish once it is loaded', async () => {
+    const pond = RxPond.test()
+    const observe = jest.spyOn(pond, 'observe')
+    const renderer = await render(
+      pond,
+      <React.StrictMode>
+        <Show use={() => useFish(InputFish)} />
+        <Show use={() => useFish({ ...InputFish })} />
+      </React.StrictMode>,
+    )
+    await settle()
+    expect(renderer.toJSON()).toEqual(['[]', '[]'])
+
+    await act(() => pond.emit(InputTag, 'a').toPromise())
+    await settle()
+    expect(renderer.toJSON()).toEqual(['["a"]', '["a"]'])
+    // Shared, and not re-subscribed by double mounting and rendering.
+    expect(observe).toHaveBeenCalledTimes(1)
+
+    act(() => renderer.unmount())
+    await pond.dispose()
+  })
+
+  it('surface errors', async () => {
+    const pond = RxPond.test()
+    pond.directlyPushEvents([{ tags: ['input'], payload: 'a' }])
+    const renderer = await render(
+      pond,
+      <Show use={() => useFish(FailingFish)} />,
+    )
+    await settle()
+    expect(renderer.toJSON()).toMatch(/^error: .*boom/)
+
+    act(() => renderer.unmount())
+    await pond.dispose()
+  })
+
+  it('suspend until loaded and throw errors to error boundaries', async () => {
+    const pond = RxPond.test()
+    pond.directlyPushEvents([{ tags: ['input'], payload: 'a' }])
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    const renderer = await render(
+      pond,
+      <React.Suspense fallback="suspended">
+        <Show use={() => useFish(InputFish, { suspense: true })} />
+        <ErrorBoundary>
+          <Show use={() => useFish(FailingFish, { suspense: true })} />
+        </ErrorBoundary>
+      </React.Suspense>,
+    )
+    await settle()
+    expect(renderer.toJSON()).toEqual([
+      '["a"]',
+      expect.stringMatching(/^caught: .*boom/),
+    ])
+
+    act(() => renderer.unmount())
+    spy.mockRestore()
+    await pond.dispose()
+  })
+
+  it('release subscriptions of renders that never mount', async () => {
+    jest.useFakeTimers()
+    const pond = RxPond.test()
+    let subscribed = 0
+    jest.spyOn(pond, 'observe').mockReturnValue(
+      new Observable<never>(() => {
+        subscribed += 1
+        return () => (subscribed -= 1)
+      }),
+    )
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    const Abandoned = () => {
+      useFish(InputFish)
+      throw new Error('abandoned')
+    }
+    const renderer = await render(
+      pond,
+      <ErrorBoundary>
+        <Abandoned />
+      </ErrorBoundary>,
+    )
+    expect(renderer.toJSON()).toEqual('caught: abandoned')
+    expect(subscribed).toEqual(1)
+
+    act(() => {
+      jest.advanceTimersByTime(30_000)
+    })
+    expect(subscribed).toEqual(0)
+
+    act(() => renderer.unmount())
+    spy.mockRestore()
+    jest.useRealTimers()
+    await pond.dispose()
+  })
+
+  it('follow events', async () => {
+    const pond = RxPond.test()
+    pond.directlyPushEvents([
+      { tags: ['input'], payload: 'a' },
+      { tags: ['input'], payload: 'b' },
+    ])
+    // Whether there is any event at all is found out without reading all of them.
+    const queryAllKnown = jest.spyOn(
+      pond.originalPond.events(),
+      'queryAllKnown',
+    )
+    const renderer = await render(
+      pond,
+      <>
+        <Show
+          use={() => useEventStream({ query: InputTag }, { maxEvents: 2 })}
+          select={events => events.map(e => e.payload)}
+        />
+        <Show
+          use={() => useLatestEvent({ query: InputTag })}
+          select={latest => latest && latest.event}
+        />
+        <Show use={() => useLatestEvent({ query: Tag<string>('none') })} />
+      </>,
+    )
+    await settle()
+    expect(renderer.toJSON()).toEqual(['["a","b"]', '"b"', 'undefined'])
+
+    await act(() => pond.emit(InputTag, 'c').toPromise())
+    await settle()
+    expect(renderer.toJSON()).toEqual(['["b","c"]', '"c"', 'undefined'])
+    expect(queryAllKnown).not.toHaveBeenCalled()
+
+    act(() => renderer.unmount())
+    await pond.dispose()
+  })
+
+  it('show the sync progress', async () => {
+    const testPond = Pond.test()
+    let completeSync = () => undefined as void
+    jest.spyOn(testPond, 'waitForSwarmSync').mockImplementation(config => {
+      completeSync = () => config.onSyncComplete()
+    })
+    const pond = RxPond.from(testPond)
+    const renderer = await render(pond, <Show use={useSyncProgress} />)
+    await settle()
+    expect(renderer.toJSON()).toEqual('loading')
+
+    act(() => completeSync())
+    expect(renderer.toJSON()).toEqual('{"synced":true}')
+
+    act(() => renderer.unmount())
+    await pond.dispose()
+  })
+
+  it('require a provider', () => {
+    const spy = jest.spyOn(console, 'error').mockImplementation(() => undefined)
+    const Component = () => <>{useRxPond().info().nodeId}</>
+    expect(() => act(() => void create(<Component />))).toThrow(
+      'useRxPond must be used within an RxPondProvider',
+    )
+    spy.mockRestore()
+  })
+})
@@ -0,0 +1,381 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  ActyxEvent,
+  EarliestQuery,
+  Fish,
+  FishId,
+  Metadata,
+  ObserveAllOpts,
+  PondState,
+  Where,
+} from '@actyx/pond'
+import * as React from 'react'
+import { concat, merge, Observable, of, Subscription } from 'rxjs'
+import { filter, isEmpty, map, scan, take } from 'rxjs/operators'
+import { describeWhere } from './errors'
+import { TypedEventSubscription } from './events'
+import { RxPond } from './index'
+import { Readiness } from './sync'
+
+/**
+ * Latest value of an Observable used by a hook: still `loading` before the first value,
+ * or the `error` it failed with.
+ */
+export type Loadable<T> =
+  | Readonly<{ type: 'loading' }>
+  | Readonly<{ type: 'value'; value: T }>
+  | Readonly<{ type: 'error'; error: unknown }>
+
+/** Options common to all hooks. */
+export type HookOpts = Readonly<{
+  /**
+   * Suspend rendering until the first value has arrived, showing the fallback of the nearest
+   * `Suspense` boundary instead, and throw errors to the nearest error boundary.
+   * The hook then only returns `Loadable`s of type `value`. Defaults to false.
+   */
+  suspense?: boolean
+}>
+
+/** Options of `useEventStream`. */
+export type EventStreamOpts = HookOpts &
+  Readonly<{
+    /** Maximum number of events to keep, the oldest are dropped first. Defaults to 100. */
+    maxEvents?: number
+  }>
+
+/** Progress of the swarm sync, see `RxPond.waitForSwarmSync`. */
+export type SyncProgress = Pick<Readiness, 'sync' | 'synced'>
+
+const loading: Loadable<never> = { type: 'loading' }
+
+/** Time an Observable stays subscribed to after its last component has gone, e.g. for re-mounting. */
+const releaseDelayMs = 1_000
+
+/**
+ * Time an Observable still loading stays subscribed to without any mounted component, e.g. for a
+ * suspended component to be mounted once it has loaded, or until a render that was abandoned
+ * (by `StrictMode`, a suspended tree that never mounts, an error boundary) is given up on.
+ */
+const loadingReleaseDelayMs = 30_000
+
+/** An Observable shared by all components using the same key with the same `RxPond`. */
+type Entry<T> = {
+  current: Loadable<T>
+  listeners: Set<() => void>
+  settled: Promise<void>
+  settle: () => void
+  subscription: Subscription
+  releaseTimer: ReturnType<typeof setTimeout> | undefined
+  released: boolean
+}
+
+const entries = new WeakMap<RxPond, Map<string, Entry<any>>>()
+
+const release = (pond: RxPond, key: string, entry: Entry<unknown>) => {
+  entry.released = true
+  entry.subscription.unsubscribe()
+  // Suspended renders waiting for the entry try again, with a new one.
+  entry.settle()
+  const forPond = entries.get(pond)
+  if (forPond !== undefined && forPond.get(key) === entry) {
+    forPond.delete(key)
+  }
+}
+
+/**
+ * Release `entry` after a while unless a component starts listening to it. Entries acquired while
+ * rendering are scheduled right away, so that they are released if the component never mounts.
+ */
+const scheduleRelease = (pond: RxPond, key: string, entry: Entry<unknown>) => {
+  if (
+    entry.listeners.size === 0 &&
+    !entry.released &&
+    entry.releaseTimer === undefined
+  ) {
+    entry.releaseTimer = setTimeout(
+      () => release(pond, key, entry),
+      entry.current.type === 'loading' ? loadingReleaseDelayMs : releaseDelayMs,
+    )
+  }
+}
+
+const acquire = <T,>(
+  pond: RxPond,
+  key: string,
+  mk: () => Observable<T>,
+): Entry<T> => {
+  let forPond = entries.get(pond)
+  if (forPond === undefined) {
+    forPond = new Map()
+    entries.set(pond, forPond)
+  }
+  const existing = forPond.get(key)
+  if (existing !== undefined) {
+    return existing
+  }
+
+  let settle = () => {
+    // Replaced below
+  }
+  const settled = new Promise<void>(res => (settle = res))
+  const entry: Entry<T> = {
+    current: loading,
+    listeners: new Set(),
+    settled,
+    settle,
+    subscription: Subscription.EMPTY,
+    releaseTimer: undefined,
+    released: false,
+  }
+  forPond.set(key, entry)
+  const update = (next: Loadable<T>) => {
+    const wasLoading = entry.current.type === 'loading'
+    entry.current = next
+    settle()
+    entry.listeners.forEach(listener => listener())
+    // Nobody has mounted yet, so the shorter delay applies from now on.
+    if (wasLoading && entry.releaseTimer !== undefined) {
+      clearTimeout(entry.releaseTimer)
+      entry.releaseTimer = undefined
+      scheduleRelease(pond, key, entry)
+    }
+  }
+  entry.subscription = mk().subscribe(
+    value => update({ type: 'value', value }),
+    error => update({ type: 'error', error }),
+  )
+  scheduleRelease(pond, key, entry)
+  return entry
+}
+
+const listen = (
+  pond: RxPond,
+  key: string,
+  entry: Entry<unknown>,
+  listener: () => void,
+) => {
+  if (entry.releaseTimer !== undefined) {
+    clearTimeout(entry.releaseTimer)
+    entry.releaseTimer = undefined
+  }
+  entry.listeners.add(listener)
+  return () => {
+    entry.listeners.delete(listener)
+    scheduleRelease(pond, key, entry)
+  }
+}
+
+/** Context providing the `RxPond` to the hooks, see `RxPondProvider`. */
+export const RxPondContext = React.createContext<RxPond | undefined>(undefined)
+
+/** Make `pond` available to the hooks in `children`. */
+export const RxPondProvider = ({
+  pond,
+  children,
+}: {
+  pond: RxPond
+  children?: React.ReactNode
+}): JSX.Element => (
+  <RxPondContext.Provider value={pond}>{children}</RxPondContext.Provider>
+)
+
+/** Get the `RxPond` of the nearest `RxPondProvider`. */
+export const useRxPond = (): RxPond => {
+  const pond = React.useContext(RxPondContext)
+  if (pond === undefined) {
+    throw new Error('useRxPond must be used within an RxPondProvider')
+  }
+  return pond
+}
+
+/**
+ * Use the latest value of the Observable created by `mk`, re-rendering whenever it changes.
+ *
+ * Components using the same `key` share one subscription, which is created only when the key
+ * changes, no matter how often `mk` is recreated, and kept for a while after the last of them has
+ * unmounted, so that re-mounting (e.g. by `StrictMode`) reuses it. A subscription made by a render
+ * that is never mounted is released after a while as well.
+ *
+ * @param key          - Identifies the Observable created by `mk` among all used with the same `RxPond`.
+ * @param mk           - Create the Observable.
+ * @param opts         - Whether to suspend while loading.
+ *
+ * @returns            The latest value, or whether it is still loading or has failed.
+ */
+export const useObservable = <T,>(
+  key: string,
+  mk: (pond: RxPond) => Observable<T>,
+  opts: HookOpts = {},
+): Loadable<T> => {
+  const pond = useRxPond()
+  const mkRef = React.useRef(mk)
+  mkRef.current = mk
+  const entry = acquire(pond, key, () => mkRef.current(pond))
+  const [, rerender] = React.useReducer((n: number) => n + 1, 0)
+
+  React.useEffect(() => {
+    // The entry may have been released while rendering was suspended.
+    const live = acquire(pond, key, () => mkRef.current(pond))
+    const stopListening = listen(pond, key, live, rerender)
+    if (live !== entry || live.current !== entry.current) {
+      rerender()
+    }
+    return stopListening
+    // `entry` and the Observable are determined by `pond` and `key`.
+  }, [pond, key])
+
+  if (opts.suspense) {
+    if (entry.current.type === 'loading') {
+      throw entry.settled
+    }
+    if (entry.current.type === 'error') {
+      throw entry.current.error
+    }
+  }
+  return entry.current
+}
+
+/**
+ * Use the state of `fish`, see `RxPond.observe`.
+ * The subscription is keyed by the `fishId`, so Fish with the same `fishId` must be identical.
+ */
+export const useFish = <S,>(fish: Fish<S, any>, opts?: HookOpts): Loadable<S> =>
+  useObservable(
+    `observe:${FishId.canonical(fish.fishId)}`,
+    pond => pond.observe(fish),
+    opts,
+  )
+
+/**
+ * Use the states of all Fish created from seed events, see `RxPond.observeAll`.
+ * The subscription is keyed by `seedEventsSelector` and `opts`, so `makeFish` must not change for them.
+ */
+export const useFishAll = <ESeed, S>(
+  seedEventsSelector: Where<ESeed>,
+  makeFish: (seedEvent: ESeed) => Fish<S, any> | undefined,
+  opts: ObserveAllOpts & HookOpts = {},
+): Loadable<S[]> => {
+  const { suspense, ...observeAllOpts } = opts
+  return useObservable(
+    `observeAll:${seedEventsSelector}:${JSON.stringify(observeAllOpts)}`,
+    pond => pond.observeAll(seedEventsSelector, makeFish, observeAllOpts),
+    { suspense },
+  )
+}
+
+/**
+ * Use the latest events matching `query`, oldest first, see `RxEventFn.catchUpAndFollow`.
+ * Loading until all known events have been delivered.
+ */
+export const useEventStream = <E,>(
+  query: TypedEventSubscription<E>,
+  opts: EventStreamOpts = {},
+): Loadable<ReadonlyArray<ActyxEvent<E>>> => {
+  const { suspense, maxEvents = 100 } = opts
+  return useObservable(
+    `catchUpAndFollow:${describeWhere(query.query)}:${JSON.stringify(
+      query.lowerBound || {},
+    )}:${maxEvents}`,
+    pond =>
+      pond
+        .events()
+        .catchUpAndFollow(query, maxEvents)
+        .pipe(
+          scan(
+            (acc, msg) => {
+              switch (msg.type) {
+                case 'chunk':
+                  return {
+                    caughtUp: false,
+                    events: [...acc.events, ...msg.chunk.events].slice(
+                      -maxEvents,
+                    ),
+                  }
+                case 'caughtUp':
+                  return { ...acc, caughtUp: true }
+                case 'event':
+                  return {
+                    ...acc,
+                    events: [...acc.events, msg.event].slice(-maxEvents),
+                  }
+              }
+            },
+            { caughtUp: false, events: [] as ActyxEvent[] },
+          ),
+          filter(({ caughtUp }) => caughtUp),
+          map(({ events }) => events as ActyxEvent<E>[]),
+        ),
+    { suspense },
+  )
+}
+
+/**
+ * Use the latest event matching `query`, see `RxEventFn.observeLatest`;
+ * `undefined` if there is none yet.
+ */
+export const useLatestEvent = <E,>(
+  query: EarliestQuery<E>,
+  opts?: HookOpts,
+): Loadable<{ event: E; metadata: Metadata } | undefined> =>
+  useObservable(
+    `observeLatest:${query.query}:${JSON.stringify(query.lowerBound || {})}:${
+      query.eventOrder
+    }`,
+    pond => {
+      const events = pond.events()
+      // `observeLatest` does not tell when there is no matching event.
+      // Looking at a single event is enough; taking it cancels the rest of the query.
+      const none = events
+        .queryAllKnownChunked(
+          { query: query.query, lowerBound: query.lowerBound },
+          1,
+        )
+        .pipe(
+          filter(chunk => chunk.events.length > 0),
+          take(1),
+          isEmpty(),
+          filter(empty => empty),
+          map(() => undefined),
+        )
+      return merge(events.observeLatest(query), none).pipe(
+        scan(
+          (latest: { event: E; metadata: Metadata } | undefined, next) =>
+            next || latest,
+          undefined,
+        ),
+      )
+    },
+    opts,
+  )
+
+/** Use the state of the Pond, see `RxPond.getPondState`. */
+export const usePondState = (opts?: HookOpts): Loadable<PondState> =>
+  useObservable('getPondState', pond => pond.getPondState(), opts)
+
+/** Use the progress of the swarm sync, see `RxPond.waitForSwarmSync`. */
+export const useSyncProgress = (opts?: HookOpts): Loadable<SyncProgress> =>
+  useObservable(
+    'waitForSwarmSync',
+    pond =>
+      concat(
+        pond
+          .waitForSwarmSync()
+          .pipe(map((sync): SyncProgress => ({ sync, synced: false }))),
+        of({ sync: undefined, synced: true }),
+      ),
+    opts,
+  )
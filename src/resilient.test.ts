@@ -0,0 +1,211 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { ActyxOpts, Fish, FishId, Pond, Tag, TestPond } from '@actyx/pond'
+import { RxPond, TraceSink } from '.'
+import { first, take, tap, toArray } from 'rxjs/operators'
+
+const NumberTag = Tag<number>('number')
+const SumFish: Fish<number, number> = {
+  fishId: FishId.of('SumFish', 'Fish1', 1),
+  initialState: 0,
+  onEvent: (state, e) => state + e,
+  where: NumberTag,
+}
+
+const manifest = {
+  appId: 'com.example.test',
+  displayName: 'My test app',
+  version: '0.0.1',
+}
+
+const pushNumbers = (pond: TestPond, numbers: number[]) =>
+  pond.directlyPushEvents(
+    numbers.map((n, offset) => ({
+      stream: 'remote-0',
+      offset,
+      lamport: offset + 1,
+      timestamp: offset,
+      tags: ['number'],
+      payload: n,
+    })),
+  )
+
+/** Ponds handed out to the resilient pond, with a way to make them lose their connection. */
+const mkTestPonds = (
+  failures = 0,
+  init: (pond: TestPond, idx: number) => void = () => undefined,
+) => {
+  const ponds: { pond: TestPond; loseConnection: () => void }[] = []
+  let attempts = 0
+  const mkPond = async (_: unknown, connectionOpts: ActyxOpts) => {
+    attempts += 1
+    if (attempts <= failures) {
+      throw new Error('node unreachable')
+    }
+    const pond = Pond.test()
+    init(pond, ponds.length)
+    ponds.push({
+      pond,
+      loseConnection: () =>
+        connectionOpts.onConnectionLost && connectionOpts.onConnectionLost(),
+    })
+    return pond
+  }
+  return { ponds, mkPond, attempts: () => attempts }
+}
+
+const backoff = { initialDelayMs: 1, maxDelayMs: 5 }
+
+describe('RxPond.resilient', () => {
+  it('reports connection state across reconnection', async () => {
+    const { ponds, mkPond } = mkTestPonds()
+    const pond = RxPond.resilient(manifest, { mkPond, backoff })
+
+    const states = pond.connectionState$.pipe(take(5), toArray()).toPromise()
+    await pond.connectionState$.pipe(first(s => s === 'connected')).toPromise()
+    ponds[0].loseConnection()
+
+    expect(await states).toEqual([
+      'connecting',
+      'connected',
+      'lost',
+      'reconnecting',
+      'connected',
+    ])
+    pond.dispose()
+  })
+
+  it('tells the info of the last Pond while reconnecting', async () => {
+    const { ponds, mkPond } = mkTestPonds()
+    const pond = RxPond.resilient(manifest, {
+      mkPond,
+      backoff: { initialDelayMs: 60_000 },
+    })
+
+    await pond.connectionState$.pipe(first(s => s === 'connected')).toPromise()
+    const info = pond.info()
+    ponds[0].loseConnection()
+    const reconnecting = await pond.connectionState$.pipe(first()).toPromise()
+
+    expect(reconnecting).toEqual('reconnecting')
+    expect(pond.info()).toEqual(info)
+    expect(pond.originalPond).toBe(ponds[0].pond)
+    pond.dispose()
+  })
+
+  it('retries with backoff until a Pond could be created', async () => {
+    const { mkPond, attempts } = mkTestPonds(3)
+    const pond = RxPond.resilient(manifest, { mkPond, backoff })
+
+    await pond.connectionState$.pipe(first(s => s === 'connected')).toPromise()
+    pond.dispose()
+
+    expect(attempts()).toEqual(4)
+  })
+
+  it('resubscribes observe on the new Pond', async () => {
+    const { ponds, mkPond } = mkTestPonds(0, (p, idx) =>
+      pushNumbers(p, idx === 0 ? [1, 2] : [1, 2, 3]),
+    )
+    const pond = RxPond.resilient(manifest, { mkPond, backoff })
+
+    const state = await pond
+      .observe(SumFish)
+      .pipe(
+        tap(s => s === 3 && setTimeout(ponds[0].loseConnection)),
+        first(s => s === 6),
+      )
+      .toPromise()
+    pond.dispose()
+
+    expect(state).toEqual(6)
+  })
+
+  it('resumes event subscriptions after the last event seen', async () => {
+    const { ponds, mkPond } = mkTestPonds(0, (p, idx) =>
+      pushNumbers(p, idx === 0 ? [1, 2] : [1, 2, 3]),
+    )
+    const pond = RxPond.resilient(manifest, { mkPond, backoff })
+
+    const payloads = await pond
+      .events()
+      .subscribe({ query: NumberTag })
+      .pipe(
+        tap(e => e.payload === 2 && setTimeout(ponds[0].loseConnection)),
+        take(3),
+        toArray(),
+      )
+      .toPromise()
+    pond.dispose()
+
+    expect(payloads.map(e => e.payload)).toEqual([1, 2, 3])
+  })
+
+  it('applies the RxPond options to every Pond', async () => {
+    const { ponds, mkPond } = mkTestPonds()
+    const trace = TraceSink.ringBuffer()
+    const pond = RxPond.resilient(manifest, { mkPond, backoff, trace })
+
+    await pond.emit(NumberTag, 1).toPromise()
+    ponds[0].loseConnection()
+    await pond.emit(NumberTag, 2).toPromise()
+    pond.dispose()
+
+    expect(ponds.length).toEqual(2)
+    expect(trace.records({ type: 'emit' })).toHaveLength(2)
+  })
+
+  it('waits for a connection before emitting', async () => {
+    const { ponds, mkPond } = mkTestPonds(1)
+    const pond = RxPond.resilient(manifest, { mkPond, backoff })
+
+    await pond.emit(NumberTag, 5).toPromise()
+    const state = await pond
+      .observe(SumFish)
+      .pipe(first())
+      .toPromise()
+    pond.dispose()
+
+    expect(ponds.length).toEqual(1)
+    expect(state).toEqual(5)
+  })
+
+  it('does not install a cancelled effect again after reconnection', async () => {
+    const { ponds, mkPond } = mkTestPonds()
+    const pond = RxPond.resilient(manifest, { mkPond, backoff })
+
+    const applied = await pond
+      .keepRunning$(
+        SumFish,
+        (state, enqueue) => enqueue(NumberTag, 1),
+        state => state >= 3,
+      )
+      .pipe(toArray())
+      .toPromise()
+    ponds[0].loseConnection()
+    await pond.connectionState$.pipe(first(s => s === 'connected')).toPromise()
+    await new Promise(resolve => setTimeout(resolve, 50))
+    const { events } = await pond
+      .events()
+      .queryAllKnown({ query: NumberTag })
+      .toPromise()
+    pond.dispose()
+
+    expect(applied.length).toEqual(3)
+    expect(ponds.length).toEqual(2)
+    expect(events).toEqual([])
+  })
+})
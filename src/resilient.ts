@@ -0,0 +1,381 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  ActyxEvent,
+  ActyxOpts,
+  AppManifest,
+  OffsetMap,
+  Pond,
+  PondInfo,
+  PondOptions,
+} from '@actyx/pond'
+import {
+  BehaviorSubject,
+  concat,
+  defer,
+  EMPTY,
+  Observable,
+  of,
+  throwError,
+} from 'rxjs'
+import {
+  catchError,
+  distinctUntilChanged,
+  filter,
+  map,
+  switchMap,
+  take,
+  takeWhile,
+  tap,
+} from 'rxjs/operators'
+import { mkCatchUpAndFollow } from './catchUp'
+import { mkSubscribeFromCheckpoint } from './checkpoint'
+import { mkDispatch } from './commands'
+import { mkWithDecoders } from './decoders'
+import { RxEventFn, TypedEventSubscription, TypedRangeQuery } from './events'
+import { RxPond, RxPondOptions } from './index'
+import { withLifecycle } from './lifecycle'
+import { mkExportNdjson, mkImportNdjson } from './ndjson'
+import { mkOutbox } from './outbox'
+import { mkObserveCached, mkObserveOneCached } from './snapshots'
+import { withSwarmSync } from './sync'
+
+/** State of the connection of a resilient `RxPond` to its Actyx node. */
+export type ConnectionState =
+  | 'connecting'
+  | 'connected'
+  | 'lost'
+  | 'reconnecting'
+
+/** Exponential backoff between connection attempts. */
+export type Backoff = Readonly<{
+  /** Delay before the first retry, in milliseconds. Defaults to 1 second. */
+  initialDelayMs: number
+  /** Upper limit for the delay between retries, in milliseconds. Defaults to 30 seconds. */
+  maxDelayMs: number
+  /** Factor by which the delay grows with every failed attempt. Defaults to 2. */
+  factor: number
+}>
+
+/** Options for `RxPond.resilient`, including those of every `RxPond` it connects with. */
+export type ResilientOpts = RxPondOptions &
+  Readonly<{
+    /** Connection options, as for `Pond.of`. Connection callbacks are superseded by `connectionState$`. */
+    connection?: Omit<ActyxOpts, 'onConnectionLost' | 'onConnectionEstablished'>
+    /** Pond options, as for `Pond.of`. */
+    pond?: PondOptions
+    /** Backoff between connection attempts. */
+    backoff?: Partial<Backoff>
+    /** Function creating the underlying Ponds. Defaults to `Pond.of`. */
+    mkPond?: (
+      manifest: AppManifest,
+      connectionOpts: ActyxOpts,
+      opts: PondOptions,
+    ) => Promise<Pond>
+  }>
+
+/** An `RxPond` that reconnects to its Actyx node whenever the connection is lost. */
+export type ResilientRxPond = RxPond & {
+  /** The current state of the connection. Replays the latest state to new subscribers. */
+  connectionState$: Observable<ConnectionState>
+}
+
+const defaultBackoff: Backoff = {
+  initialDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  factor: 2,
+}
+
+/**
+ * Create the `RxPond.resilient` factory from the function wrapping a single Pond.
+ *
+ * Streams are recreated on every new Pond; event subscriptions resume after the last event they delivered.
+ * One-shot operations wait for a connection to be available.
+ */
+export const mkResilient = (
+  wrap: (pond: Pond, opts: RxPondOptions) => RxPond,
+) => (manifest: AppManifest, opts: ResilientOpts = {}): ResilientRxPond => {
+  const backoff = { ...defaultBackoff, ...opts.backoff }
+  const mkPond = opts.mkPond || Pond.of
+  const state$ = new BehaviorSubject<ConnectionState>('connecting')
+  const ponds$ = new BehaviorSubject<RxPond | undefined>(undefined)
+  // Kept apart from the member itself, which is disposed of when its connection is lost.
+  let lastConnected:
+    | Readonly<{ info: PondInfo; originalPond: Pond }>
+    | undefined = undefined
+  let disposed = false
+  let retryTimer: ReturnType<typeof setTimeout> | undefined = undefined
+
+  const retry = (attempt: number) => {
+    const delay = Math.min(
+      backoff.maxDelayMs,
+      backoff.initialDelayMs * Math.pow(backoff.factor, attempt),
+    )
+    retryTimer = setTimeout(() => connect(attempt + 1), delay)
+  }
+
+  const onLost = (pond: RxPond) => {
+    if (disposed || ponds$.getValue() !== pond) {
+      return
+    }
+    state$.next('lost')
+    ponds$.next(undefined)
+    pond.dispose()
+    state$.next('reconnecting')
+    retry(0)
+  }
+
+  const connect = (attempt: number) => {
+    let pond: RxPond | undefined = undefined
+    let lost = false
+    const onConnectionLost = () => {
+      lost = true
+      if (pond !== undefined) {
+        onLost(pond)
+      }
+    }
+
+    mkPond(manifest, { ...opts.connection, onConnectionLost }, opts.pond || {})
+      .then(p => {
+        if (disposed || lost) {
+          p.dispose()
+          // Losing the connection before the Pond was handed out counts as failed attempt
+          if (!disposed) {
+            retry(attempt)
+          }
+          return
+        }
+        pond = wrap(p, opts)
+        lastConnected = { info: pond.info(), originalPond: pond.originalPond }
+        ponds$.next(pond)
+        state$.next('connected')
+      })
+      .catch(() => {
+        if (!disposed) {
+          retry(attempt)
+        }
+      })
+  }
+
+  const current = () => {
+    if (lastConnected === undefined) {
+      throw new Error('RxPond.resilient: not connected yet')
+    }
+    return lastConnected
+  }
+
+  /** Run `f` on every Pond, switching over to the next one after reconnection. */
+  const live = <T>(f: (pond: RxPond) => Observable<T>): Observable<T> =>
+    ponds$.pipe(
+      switchMap(pond =>
+        pond
+          ? f(pond).pipe(
+              // Errors of a Pond that has been replaced are due to the lost connection.
+              catchError(err =>
+                ponds$.getValue() === pond ? throwError(err) : EMPTY,
+              ),
+            )
+          : EMPTY,
+      ),
+    )
+
+  /**
+   * Like `live`, but complete as soon as `f` completes on the current Pond, e.g. because of
+   * `autoCancel`, instead of running it again on the next Pond.
+   */
+  const liveUntilDone = <T>(
+    f: (pond: RxPond) => Observable<T>,
+  ): Observable<T> =>
+    live(pond =>
+      concat(
+        f(pond).pipe(map(value => ({ value }))),
+        // Completing because the Pond was replaced is no reason to stop.
+        defer(() => (ponds$.getValue() === pond ? of(undefined) : EMPTY)),
+      ),
+    ).pipe(
+      takeWhile((x): x is { value: T } => x !== undefined),
+      map(({ value }) => value),
+    )
+
+  /** Run `f` on the first available Pond. */
+  const withPond = <T>(f: (pond: RxPond) => Observable<T>): Observable<T> =>
+    ponds$.pipe(
+      filter((pond): pond is RxPond => pond !== undefined),
+      take(1),
+      switchMap(f),
+    )
+
+  const subscribe = <E>(
+    query: TypedEventSubscription<E>,
+  ): Observable<ActyxEvent<E>> =>
+    defer(() => {
+      let lowerBound = query.lowerBound
+      return live(pond =>
+        pond
+          .events()
+          .subscribe<E>({ ...query, lowerBound })
+          .pipe(
+            tap(e => {
+              lowerBound = OffsetMap.update({ ...lowerBound }, e.meta)
+            }),
+          ),
+      )
+    })
+
+  const queryAllKnownChunked: RxEventFn['queryAllKnownChunked'] = (
+    query,
+    chunkSize,
+  ) => withPond(pond => pond.events().queryAllKnownChunked(query, chunkSize))
+
+  const queryKnownRange = <E>(
+    query: TypedRangeQuery<E>,
+  ): Observable<ActyxEvent<E>[]> =>
+    withPond(pond => pond.events().queryKnownRange(query))
+
+  const events: RxEventFn = {
+    currentOffsets: () => withPond(pond => pond.events().currentOffsets()),
+    queryKnownRange,
+    queryKnownRangeChunked: (query, chunkSize) =>
+      withPond(pond => pond.events().queryKnownRangeChunked(query, chunkSize)),
+    processKnownRangeChunked: (query, chunkSize, process) =>
+      withPond(pond =>
+        pond.events().processKnownRangeChunked(query, chunkSize, process),
+      ),
+    queryAllKnown: query =>
+      withPond(pond => pond.events().queryAllKnown(query)),
+    queryAllKnownChunked,
+    processAllKnownChunked: (query, chunkSize, process) =>
+      withPond(pond =>
+        pond.events().processAllKnownChunked(query, chunkSize, process),
+      ),
+    subscribe,
+    subscribeFromCheckpoint: mkSubscribeFromCheckpoint(subscribe),
+    catchUpAndFollow: mkCatchUpAndFollow(queryAllKnownChunked, subscribe),
+    withDecoders: mkWithDecoders(subscribe, queryKnownRange),
+    exportNdjson: mkExportNdjson(
+      (query, chunkSize) =>
+        withPond(pond =>
+          pond.events().queryKnownRangeChunked(query, chunkSize),
+        ),
+      queryAllKnownChunked,
+    ),
+    importNdjson: mkImportNdjson(e => withPond(pond => pond.events().emit(e))),
+    observeEarliest: query =>
+      live(pond => pond.events().observeEarliest(query)),
+    observeLatest: query => live(pond => pond.events().observeLatest(query)),
+    observeBestMatch: (query, shouldReplace) =>
+      live(pond => pond.events().observeBestMatch(query, shouldReplace)),
+    observeUnorderedReduce: (query, reduce, initial) =>
+      live(pond =>
+        pond.events().observeUnorderedReduce(query, reduce, initial),
+      ),
+    emit: e => withPond(pond => pond.events().emit(e)),
+  }
+
+  connect(0)
+
+  let synced: RxPond | undefined = undefined
+
+  const rxPond: RxPond = {
+    emit: (tags, event) => withPond(pond => pond.emit(tags, event)),
+
+    observe: fish => live(pond => pond.observe(fish)),
+
+    observeRxFish: fish => live(pond => pond.observeRxFish(fish)),
+
+    observeAll: (seedEventsSelector, makeFish, opts) =>
+      live(pond => pond.observeAll(seedEventsSelector, makeFish, opts)),
+
+    observeAllChanges: (seedEventsSelector, makeFish, opts) =>
+      live(pond => pond.observeAllChanges(seedEventsSelector, makeFish, opts)),
+
+    observeJoined: (fishes, project) =>
+      live(pond => pond.observeJoined(fishes, project)),
+
+    observeOne: (seedEventSelector, makeFish) =>
+      live(pond => pond.observeOne(seedEventSelector, makeFish)),
+
+    // The snapshot is emitted only once, not again after reconnecting.
+    observeCached: mkObserveCached(fish => live(pond => pond.observe(fish))),
+
+    observeOneCached: mkObserveOneCached((seedEventSelector, makeFish) =>
+      live(pond => pond.observeOne(seedEventSelector, makeFish)),
+    ),
+
+    run: (fish, fn) => withPond(pond => pond.run(fish, fn)),
+
+    keepRunning: (fish, fn, autoCancel) => {
+      const sub = liveUntilDone(pond =>
+        pond.keepRunning$(fish, fn, autoCancel),
+      ).subscribe({ error: () => undefined })
+      return () => sub.unsubscribe()
+    },
+
+    keepRunning$: (fish, fn, autoCancel) =>
+      liveUntilDone(pond => pond.keepRunning$(fish, fn, autoCancel)),
+
+    // Idempotency keys are remembered across reconnection.
+    dispatch: mkDispatch((handler, command) =>
+      withPond(pond => pond.dispatch(handler, command)),
+    ),
+
+    // Retry right away when the connection is back.
+    outbox: mkOutbox(
+      events.emit,
+      state$.pipe(filter(state => state === 'connected')),
+    ),
+
+    dispose: () => {
+      disposed = true
+      if (retryTimer !== undefined) {
+        clearTimeout(retryTimer)
+      }
+      const pond = ponds$.getValue()
+      ponds$.next(undefined)
+      ponds$.complete()
+      state$.complete()
+      return pond !== undefined ? pond.dispose() : Promise.resolve()
+    },
+
+    info: () => current().info,
+
+    getPondState: () => live(pond => pond.getPondState()),
+
+    waitForSwarmSync: () => withPond(pond => pond.waitForSwarmSync()),
+
+    readiness$: live(pond => pond.readiness$),
+
+    health$: live(pond => pond.health$),
+
+    whenSynced: () => {
+      if (synced === undefined) {
+        synced = withSwarmSync(resilient)
+      }
+      return synced
+    },
+
+    events: () => events,
+
+    get originalPond() {
+      return current().originalPond
+    },
+  }
+  // Assigning does not evaluate the `originalPond` getter.
+  const resilient: ResilientRxPond = Object.assign(withLifecycle(rxPond), {
+    connectionState$: state$.pipe(distinctUntilChanged()),
+  })
+  return resilient
+}
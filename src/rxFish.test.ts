@@ -0,0 +1,96 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { ActyxEvent, Tag } from '@actyx/pond'
+import { RxFish, RxPond } from '.'
+import { Observable } from 'rxjs'
+import { first, scan, tap } from 'rxjs/operators'
+
+const LetterTag = Tag<string>('letter')
+
+const mkFish = (
+  onFeed: (e: ActyxEvent<string>) => void = () => undefined,
+): RxFish<string[], string> => ({
+  where: LetterTag,
+  initialState: [],
+  pipeline: (events: Observable<ActyxEvent<string>>, state: string[]) =>
+    events.pipe(
+      tap(onFeed),
+      scan((acc: string[], e) => [...acc, e.payload], state),
+    ),
+  snapshotInterval: 1,
+})
+
+describe('observeRxFish', () => {
+  it('aggregates known and live events', async () => {
+    const pond = RxPond.test()
+    pond.directlyPushEvents([{ tags: ['letter'], payload: 'a' }])
+
+    const initial = await pond
+      .observeRxFish(mkFish())
+      .pipe(first())
+      .toPromise()
+    const live = pond
+      .observeRxFish(mkFish())
+      .pipe(first(s => s.length === 2))
+      .toPromise()
+    pond.directlyPushEvents([{ tags: ['letter'], payload: 'b' }])
+    const state = await live
+    pond.dispose()
+
+    expect(initial).toEqual(['a'])
+    expect(state).toEqual(['a', 'b'])
+  })
+
+  it('starts with the initial state when there are no events', async () => {
+    const pond = RxPond.test()
+    const state = await pond
+      .observeRxFish(mkFish())
+      .pipe(first())
+      .toPromise()
+    pond.dispose()
+    expect(state).toEqual([])
+  })
+
+  it('replays from the last snapshot before an out-of-order event', async () => {
+    const pond = RxPond.test()
+    pond.directlyPushEvents(
+      [10, 20, 30, 40].map(lamport => ({
+        tags: ['letter'],
+        payload: `${lamport}`,
+        lamport,
+      })),
+    )
+    const fed: string[] = []
+    const fish = mkFish(e => fed.push(e.payload))
+
+    const states = pond
+      .observeRxFish(fish)
+      .pipe(first(s => s.length === 5))
+      .toPromise()
+    await pond
+      .observeRxFish(mkFish())
+      .pipe(first(s => s.length === 4))
+      .toPromise()
+    pond.directlyPushEvents([
+      { tags: ['letter'], payload: '25', lamport: 25, stream: 'other' },
+    ])
+    const state = await states
+    pond.dispose()
+
+    expect(state).toEqual(['10', '20', '25', '30', '40'])
+    expect(fed).toEqual(['10', '20', '30', '40', '25', '30', '40'])
+  })
+})
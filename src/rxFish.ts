@@ -0,0 +1,184 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { ActyxEvent, Where } from '@actyx/pond'
+import { Observable, Subject, Subscription } from 'rxjs'
+import { rxPondError } from './errors'
+import { RxEventFn } from './events'
+
+/**
+ * A Fish whose state is computed by an RxJS pipeline instead of an `onEvent` function.
+ *
+ * The pipeline must process events synchronously, and every state it emits must capture
+ * everything needed to continue from it: when an event arrives out of order, the pipeline is
+ * restarted from an earlier emitted state and fed the events following it again.
+ * (`scan` with the given initial state as seed is the canonical example.)
+ *
+ * @typeParam S        - Type of the state.
+ * @typeParam E        - Type of the events.
+ */
+export type RxFish<S, E> = Readonly<{
+  /** The events to aggregate. */
+  where: Where<E>
+  /** State before any event has been applied. */
+  initialState: S
+  /** Compute states from events in order, starting from the given state. */
+  pipeline: (events: Observable<ActyxEvent<E>>, state: S) => Observable<S>
+  /** Number of events between snapshots the pipeline may be restarted from, 100 by default. */
+  snapshotInterval?: number
+}>
+
+/** A state emitted by the pipeline after the first `count` events of the log. */
+type Snapshot<S> = Readonly<{ count: number; state: S }>
+
+type Run<S, E> = {
+  input: Subject<ActyxEvent<E>>
+  sub: Subscription
+  count: number
+  state: S
+  changed: boolean
+}
+
+const defaultSnapshotInterval = 100
+const catchUpChunkSize = 500
+
+/** Order events like the Pond does: by lamport, then by stream and offset. */
+const compareEvents = (a: ActyxEvent, b: ActyxEvent): number =>
+  a.meta.lamport - b.meta.lamport ||
+  (a.meta.stream < b.meta.stream
+    ? -1
+    : a.meta.stream > b.meta.stream
+    ? 1
+    : a.meta.offset - b.meta.offset)
+
+/** Index at which to insert `event` into the sorted `log`; -1 if it is already there. */
+const insertionIndex = <E>(
+  log: ReadonlyArray<ActyxEvent<E>>,
+  event: ActyxEvent<E>,
+): number => {
+  let lo = 0
+  let hi = log.length
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1
+    const cmp = compareEvents(log[mid], event)
+    if (cmp === 0) {
+      return -1
+    }
+    if (cmp < 0) {
+      lo = mid + 1
+    } else {
+      hi = mid
+    }
+  }
+  return lo
+}
+
+/**
+ * Create the `observeRxFish` function of an `RxPond`.
+ *
+ * All events are kept in memory, sorted like the Pond sorts them for Fish. Events arriving in
+ * order are fed to the running pipeline; others restart it from the last snapshot before them.
+ */
+export const mkObserveRxFish = (events: RxEventFn) => <S, E>(
+  fish: RxFish<S, E>,
+): Observable<S> =>
+  new Observable<S>(o => {
+    const toError = rxPondError('observeRxFish', {
+      tags: fish.where.toString(),
+    })
+    const snapshotInterval = fish.snapshotInterval || defaultSnapshotInterval
+    const log: ActyxEvent<E>[] = []
+    let snapshots: Snapshot<S>[] = [{ count: 0, state: fish.initialState }]
+    let caughtUp = false
+
+    const start = ({ count, state }: Snapshot<S>): Run<S, E> => {
+      const input = new Subject<ActyxEvent<E>>()
+      const run: Run<S, E> = {
+        input,
+        sub: Subscription.EMPTY,
+        count,
+        state,
+        changed: false,
+      }
+      run.sub = fish.pipeline(input, state).subscribe(
+        s => {
+          run.state = s
+          run.changed = true
+          const last = snapshots[snapshots.length - 1]
+          if (run.count - last.count >= snapshotInterval) {
+            snapshots.push({ count: run.count, state: s })
+          }
+        },
+        err => o.error(toError(err)),
+      )
+      return run
+    }
+
+    let run = start(snapshots[0])
+
+    const feed = (event: ActyxEvent<E>) => {
+      run.count += 1
+      run.input.next(event)
+    }
+
+    const add = (event: ActyxEvent<E>) => {
+      const idx = insertionIndex(log, event)
+      if (idx < 0) {
+        return
+      }
+      log.splice(idx, 0, event)
+      if (idx === run.count) {
+        feed(event)
+        return
+      }
+
+      // Time travel: restart from the last snapshot not affected by the new event.
+      snapshots = snapshots.filter(s => s.count <= idx)
+      const snapshot = snapshots[snapshots.length - 1]
+      run.sub.unsubscribe()
+      run = start(snapshot)
+      run.changed = true
+      log.slice(snapshot.count).forEach(feed)
+    }
+
+    const publish = () => {
+      if (caughtUp && run.changed && !o.closed) {
+        run.changed = false
+        o.next(run.state)
+      }
+    }
+
+    const sub = events
+      .catchUpAndFollow({ query: fish.where }, catchUpChunkSize)
+      .subscribe(
+        msg => {
+          if (msg.type === 'chunk') {
+            msg.chunk.events.forEach(e => add(e as ActyxEvent<E>))
+          } else if (msg.type === 'event') {
+            add(msg.event as ActyxEvent<E>)
+          } else {
+            caughtUp = true
+            run.changed = true
+          }
+          publish()
+        },
+        err => o.error(err),
+      )
+
+    return () => {
+      sub.unsubscribe()
+      run.sub.unsubscribe()
+    }
+  })
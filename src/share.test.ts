@@ -0,0 +1,169 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Fish, FishId, Milliseconds, Pond, Tag } from '@actyx/pond'
+import { RxPond } from '.'
+import { withSharedObservations } from './share'
+import { first } from 'rxjs/operators'
+
+const NumberTag = Tag<number>('number')
+const SumFish: Fish<number, number> = {
+  fishId: FishId.of('SumFish', 'Fish1', 1),
+  initialState: 0,
+  onEvent: (state, e) => state + e,
+  where: NumberTag,
+}
+
+const sleep = (ms: number) => new Promise(res => setTimeout(res, ms))
+
+const mkPond = (observeGracePeriodMs?: number) => {
+  const testPond = Pond.test()
+  const observe = jest.spyOn(testPond, 'observe')
+  const pond = RxPond.from(testPond, { observeGracePeriodMs })
+  return { pond, testPond, observe }
+}
+
+describe('shared observations', () => {
+  it('register a Fish only once for all subscribers', async () => {
+    const { pond, observe } = mkPond()
+
+    const subs = [1, 2, 3].map(() => pond.observe(SumFish).subscribe())
+    await pond
+      .observe(SumFish)
+      .pipe(first())
+      .toPromise()
+    subs.forEach(sub => sub.unsubscribe())
+    pond.dispose()
+
+    expect(observe).toHaveBeenCalledTimes(1)
+  })
+
+  it('replay the current state to late subscribers synchronously', async () => {
+    const { pond, testPond } = mkPond()
+    const sub = pond.observe(SumFish).subscribe()
+    testPond.directlyPushEvents([
+      {
+        stream: 'remote-0',
+        offset: 0,
+        lamport: 1,
+        timestamp: 1,
+        tags: ['number'],
+        payload: 5,
+      },
+    ])
+    await pond
+      .observe(SumFish)
+      .pipe(first(s => s === 5))
+      .toPromise()
+
+    let state: number | undefined = undefined
+    pond
+      .observe(SumFish)
+      .subscribe(s => (state = s))
+      .unsubscribe()
+    sub.unsubscribe()
+    pond.dispose()
+
+    expect(state).toEqual(5)
+  })
+
+  it('release the registration after the last subscriber left', async () => {
+    const { pond, observe } = mkPond()
+
+    await pond
+      .observe(SumFish)
+      .pipe(first())
+      .toPromise()
+    await pond
+      .observe(SumFish)
+      .pipe(first())
+      .toPromise()
+    pond.dispose()
+
+    expect(observe).toHaveBeenCalledTimes(2)
+  })
+
+  it('keep the registration alive during the grace period', async () => {
+    const { pond, observe } = mkPond(50)
+
+    await pond
+      .observe(SumFish)
+      .pipe(first())
+      .toPromise()
+    await sleep(10)
+    await pond
+      .observe(SumFish)
+      .pipe(first())
+      .toPromise()
+    expect(observe).toHaveBeenCalledTimes(1)
+
+    await sleep(100)
+    await pond
+      .observe(SumFish)
+      .pipe(first())
+      .toPromise()
+    pond.dispose()
+    expect(observe).toHaveBeenCalledTimes(2)
+  })
+
+  it('share observeAll by seed event selector, makeFish and options', async () => {
+    const { pond } = mkPond()
+    const observeAll = jest.spyOn(pond.originalPond, 'observeAll')
+    const SeedTag = Tag<string>('seed')
+    const makeFish = () => SumFish
+
+    const a = pond.observeAll(SeedTag, makeFish, {}).subscribe()
+    const b = pond.observeAll(SeedTag, makeFish, {}).subscribe()
+    expect(observeAll).toHaveBeenCalledTimes(1)
+
+    const c = pond.observeAll(SeedTag, () => SumFish, {}).subscribe()
+    const d = pond
+      .observeAll(SeedTag, makeFish, { expireAfterSeed: Milliseconds.of(1) })
+      .subscribe()
+    ;[a, b, c, d].forEach(sub => sub.unsubscribe())
+    pond.dispose()
+
+    expect(observeAll).toHaveBeenCalledTimes(3)
+  })
+
+  it('remember shared observations only while they are subscribed to', async () => {
+    const testPond = RxPond.test()
+    const pond = withSharedObservations(testPond, 0)
+
+    expect(pond.observe(SumFish)).not.toBe(pond.observe(SumFish))
+    const sub = pond.observe(SumFish).subscribe()
+    const observation = pond.observe(SumFish)
+    expect(pond.observe(SumFish)).toBe(observation)
+    sub.unsubscribe()
+    const later = pond.observe(SumFish)
+    testPond.dispose()
+
+    expect(later).not.toBe(observation)
+  })
+
+  it('share the observations of joined Fish', async () => {
+    const { pond, observe } = mkPond()
+
+    const sub = pond.observe(SumFish).subscribe()
+    await pond
+      .observeJoined({ sum: SumFish }, ({ sum }) => sum)
+      .pipe(first())
+      .toPromise()
+    sub.unsubscribe()
+    pond.dispose()
+
+    expect(observe).toHaveBeenCalledTimes(1)
+  })
+})
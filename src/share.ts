@@ -0,0 +1,197 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Fish, FishId, ObserveAllOpts, Where } from '@actyx/pond'
+import { defer, Observable, ReplaySubject, Subscription } from 'rxjs'
+import { RxPond } from './index'
+import { mkObserveJoined } from './join'
+import { mkObserveCached, mkObserveOneCached } from './snapshots'
+
+/**
+ * Share a single subscription to `source` among all subscribers, replaying the latest value
+ * to new subscribers synchronously.
+ *
+ * The source subscription is only released `gracePeriodMs` after the last subscriber left,
+ * and reused if a new subscriber arrives in the meantime. After the source errors or completes,
+ * the next subscriber starts it anew.
+ *
+ * @param onActive - Called with `true` when the source is subscribed to, and with `false` when
+ *                   that subscription has ended.
+ */
+export const shareLatest = <T>(
+  source: Observable<T>,
+  gracePeriodMs: number,
+  onActive: (active: boolean) => void = () => undefined,
+): Observable<T> => {
+  let subject: ReplaySubject<T> | undefined = undefined
+  let sourceSub: Subscription | undefined = undefined
+  let refCount = 0
+  let graceTimer: ReturnType<typeof setTimeout> | undefined = undefined
+
+  const reset = () => {
+    if (graceTimer !== undefined) {
+      clearTimeout(graceTimer)
+      graceTimer = undefined
+    }
+    const sub = sourceSub
+    const active = subject !== undefined
+    subject = undefined
+    sourceSub = undefined
+    if (sub !== undefined) {
+      sub.unsubscribe()
+    }
+    if (active) {
+      onActive(false)
+    }
+  }
+
+  return new Observable<T>(o => {
+    refCount += 1
+    if (graceTimer !== undefined) {
+      clearTimeout(graceTimer)
+      graceTimer = undefined
+    }
+
+    const connect = subject === undefined
+    const current = subject || new ReplaySubject<T>(1)
+    subject = current
+    const sub = current.subscribe(o)
+    if (connect) {
+      onActive(true)
+      sourceSub = source.subscribe({
+        next: v => current.next(v),
+        error: err => {
+          // Subscribers arriving later shall not see a stale error, but start over.
+          if (subject === current) {
+            reset()
+          }
+          current.error(err)
+        },
+        complete: () => {
+          if (subject === current) {
+            reset()
+          }
+          current.complete()
+        },
+      })
+    }
+
+    return () => {
+      sub.unsubscribe()
+      refCount -= 1
+      if (refCount > 0 || subject !== current) {
+        return
+      }
+      if (gracePeriodMs > 0) {
+        graceTimer = setTimeout(reset, gracePeriodMs)
+      } else {
+        reset()
+      }
+    }
+  })
+}
+
+/**
+ * Make `observe`, `observeAll` and `observeOne` of the given `RxPond` return shared Observables,
+ * keyed by `fishId`, or by the seed event selector together with `makeFish` and the options,
+ * respectively. `observeJoined` and the cached variants are built on the shared ones.
+ * Observations are only remembered while subscribed to, and forgotten once their last subscriber has left.
+ */
+export const withSharedObservations = (
+  rxPond: RxPond,
+  gracePeriodMs: number,
+): RxPond => {
+  const cache: Record<string, Observable<unknown>> = {}
+  const shared = <T>(
+    key: string,
+    mkSource: () => Observable<T>,
+  ): Observable<T> => {
+    const existing = cache[key]
+    if (existing !== undefined) {
+      return existing as Observable<T>
+    }
+    // Looked up again on subscription, as Observables never subscribed to are not cached.
+    return defer(() => {
+      const active = cache[key]
+      if (active !== undefined) {
+        return active as Observable<T>
+      }
+      const created: Observable<T> = shareLatest(
+        mkSource(),
+        gracePeriodMs,
+        isActive => {
+          if (isActive && cache[key] === undefined) {
+            cache[key] = created
+          } else if (!isActive && cache[key] === created) {
+            delete cache[key]
+          }
+        },
+      )
+      return created
+    })
+  }
+
+  // Functions can only be told apart by identity, so they are numbered.
+  const functionIds = new WeakMap<(...args: never[]) => unknown, number>()
+  let nextFunctionId = 0
+  const functionId = (f: (...args: never[]) => unknown) => {
+    let id = functionIds.get(f)
+    if (id === undefined) {
+      id = nextFunctionId++
+      functionIds.set(f, id)
+    }
+    return id
+  }
+
+  const observe = <S, E>(fish: Fish<S, E>) =>
+    shared(`observe:${FishId.canonical(fish.fishId)}`, () =>
+      rxPond.observe(fish),
+    )
+
+  const observeOne = <ESeed, S>(
+    seedEventSelector: Where<ESeed>,
+    makeFish: (seedEvent: ESeed) => Fish<S, any>,
+  ) =>
+    shared(
+      `observeOne:${seedEventSelector.toString()}:${functionId(makeFish)}`,
+      () => rxPond.observeOne(seedEventSelector, makeFish),
+    )
+
+  return {
+    ...rxPond,
+
+    observe,
+
+    observeAll: <ESeed, S>(
+      seedEventsSelector: Where<ESeed>,
+      makeFish: (seedEvent: ESeed) => Fish<S, any> | undefined,
+      opts: ObserveAllOpts,
+    ) =>
+      shared(
+        `observeAll:${seedEventsSelector.toString()}:${functionId(
+          makeFish,
+        )}:${JSON.stringify(opts)}`,
+        () => rxPond.observeAll(seedEventsSelector, makeFish, opts),
+      ),
+
+    observeOne,
+
+    observeJoined: mkObserveJoined(observe),
+
+    observeCached: mkObserveCached(observe),
+
+    observeOneCached: mkObserveOneCached(observeOne),
+  }
+}
@@ -0,0 +1,159 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Fish, FishId, Tag } from '@actyx/pond'
+import { CachedState, RxPond, SnapshotStore, TestRxPond } from '.'
+import { first, take, toArray } from 'rxjs/operators'
+
+const InputTag = Tag<string>('input')
+const mkInputFish = (version: number): Fish<string[], string> => ({
+  fishId: FishId.of('InputFish', 'inputs', version),
+  initialState: [],
+  onEvent: (state, e) => [...state, e],
+  where: InputTag,
+})
+
+const sleep = (ms: number) => new Promise(res => setTimeout(res, ms))
+
+/** A test Pond taking a while to hydrate Fish, like a Pond connected to a node with many events. */
+const mkSlowPond = (): TestRxPond => {
+  const pond = RxPond.test()
+  const testPond = pond.originalPond
+  const delay = <F extends (...args: any[]) => () => void>(f: F) => (
+    ...args: Parameters<F>
+  ) => {
+    let cancel = () => undefined as void
+    const timer = setTimeout(() => (cancel = f(...args)), 50)
+    return () => {
+      clearTimeout(timer)
+      cancel()
+    }
+  }
+  const { observe, observeOne } = testPond
+  jest.spyOn(testPond, 'observe').mockImplementation(delay(observe))
+  jest.spyOn(testPond, 'observeOne').mockImplementation(delay(observeOne))
+  return pond
+}
+
+/** Observe `inputs` on a fresh Pond and wait for its live state to be saved. */
+const prime = async (store: SnapshotStore, inputs: string[]) => {
+  const pond = RxPond.test()
+  pond.directlyPushEvents(inputs.map(payload => ({ tags: ['input'], payload })))
+  await pond
+    .observeCached(mkInputFish(1), { store })
+    .pipe(first(({ stale }) => !stale))
+    .toPromise()
+  await sleep(10)
+  await pond.dispose()
+}
+
+const live = async (
+  pond: TestRxPond,
+  states: Promise<CachedState<string[]>[]>,
+  inputs: string[],
+) => {
+  pond.directlyPushEvents(inputs.map(payload => ({ tags: ['input'], payload })))
+  const result = await states
+  await pond.dispose()
+  return result
+}
+
+describe('snapshot cache', () => {
+  it('emits the saved state as stale until the live state arrives', async () => {
+    const store = SnapshotStore.inMemory()
+    await prime(store, ['a'])
+
+    const pond = mkSlowPond()
+    const states = pond
+      .observeCached(mkInputFish(1), { store })
+      .pipe(take(2), toArray())
+      .toPromise()
+    await sleep(10)
+
+    expect(await live(pond, states, ['a', 'b'])).toEqual([
+      { state: ['a'], stale: true },
+      { state: ['a', 'b'], stale: false },
+    ])
+    expect(
+      await store.load(JSON.stringify(['observe', 'InputFish', 'inputs'])),
+    ).toMatchObject({ version: 1, state: ['a', 'b'] })
+  })
+
+  it('discards snapshots of other versions', async () => {
+    const store = SnapshotStore.inMemory()
+    await prime(store, ['a'])
+
+    const pond = mkSlowPond()
+    const states = pond
+      .observeCached(mkInputFish(2), { store })
+      .pipe(take(1), toArray())
+      .toPromise()
+    await sleep(10)
+
+    expect(await live(pond, states, ['b'])).toEqual([
+      { state: ['b'], stale: false },
+    ])
+  })
+
+  it('migrates snapshots of other versions', async () => {
+    const store = SnapshotStore.inMemory()
+    await prime(store, ['a'])
+
+    const pond = mkSlowPond()
+    const states = pond
+      .observeCached(mkInputFish(2), {
+        store,
+        onVersionChange: ({ version, state }) =>
+          version === 1
+            ? (state as string[]).map(s => s.toUpperCase())
+            : undefined,
+      })
+      .pipe(take(2), toArray())
+      .toPromise()
+    await sleep(10)
+
+    expect(await live(pond, states, ['b'])).toEqual([
+      { state: ['A'], stale: true },
+      { state: ['b'], stale: false },
+    ])
+  })
+
+  it('caches observeOne by its seed events', async () => {
+    const store = SnapshotStore.inMemory()
+    const observeOne = (pond: RxPond) =>
+      pond.observeOneCached(InputTag, () => mkInputFish(1), {
+        store,
+        version: 1,
+      })
+    const primed = RxPond.test()
+    primed.directlyPushEvents([{ tags: ['input'], payload: 'a' }])
+    await observeOne(primed)
+      .pipe(first(({ stale }) => !stale))
+      .toPromise()
+    await sleep(50)
+    await primed.dispose()
+
+    const pond = mkSlowPond()
+    const states = observeOne(pond)
+      .pipe(take(2), toArray())
+      .toPromise()
+    await sleep(50)
+
+    expect(await live(pond, states, ['b'])).toEqual([
+      { state: ['a'], stale: true },
+      { state: ['b'], stale: false },
+    ])
+  })
+})
@@ -0,0 +1,216 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Fish, Where } from '@actyx/pond'
+import { asyncScheduler, defer, EMPTY, from, merge, Observable } from 'rxjs'
+import {
+  catchError,
+  concatMap,
+  filter,
+  ignoreElements,
+  map,
+  shareReplay,
+  takeUntil,
+  throttleTime,
+} from 'rxjs/operators'
+
+/** A persisted state of an observation, with the version it was saved with. */
+export type Snapshot = Readonly<{
+  version: number
+  state: unknown
+  /** Time of saving, in milliseconds since the epoch. */
+  savedAt: number
+}>
+
+/** A place to keep snapshots, by key. */
+export type SnapshotStore = Readonly<{
+  /** Load the snapshot saved under `key`, or `undefined` if there is none. */
+  load: (key: string) => Promise<Snapshot | undefined>
+  /** Save a snapshot under `key`, replacing whatever was saved before. */
+  save: (key: string, snapshot: Snapshot) => Promise<void>
+  /** Remove the snapshot saved under `key`, if any. */
+  remove: (key: string) => Promise<void>
+}>
+
+/** An asynchronous key-value storage, e.g. on top of IndexedDB as offered by `idb-keyval`. */
+export type KeyValueStorage = Readonly<{
+  get: (key: string) => Promise<unknown>
+  set: (key: string, value: unknown) => Promise<void>
+  del: (key: string) => Promise<void>
+}>
+
+/** Factories for the `SnapshotStore`s that come with RxPond. */
+export const SnapshotStore = {
+  /** Keep snapshots in memory only; they are lost when the process ends. */
+  inMemory: (): SnapshotStore => {
+    const snapshots = new Map<string, Snapshot>()
+    return {
+      load: async key => snapshots.get(key),
+      save: async (key, snapshot) => {
+        snapshots.set(key, snapshot)
+      },
+      remove: async key => {
+        snapshots.delete(key)
+      },
+    }
+  },
+
+  /**
+   * Keep snapshots in a key-value storage, e.g. on top of IndexedDB.
+   *
+   * @param storage - The storage.
+   * @param prefix  - Prefix of the keys used in the storage, `'rx-pond-snapshot:'` by default.
+   */
+  keyValue: (
+    storage: KeyValueStorage,
+    prefix = 'rx-pond-snapshot:',
+  ): SnapshotStore => ({
+    load: async key =>
+      (await storage.get(prefix + key)) as Snapshot | undefined,
+    save: (key, snapshot) => storage.set(prefix + key, snapshot),
+    remove: key => storage.del(prefix + key),
+  }),
+}
+
+/**
+ * What to do with a snapshot saved with another version: `'discard'` it, or migrate its state,
+ * returning `undefined` to discard it after all.
+ */
+export type InvalidationPolicy<S> =
+  | 'discard'
+  | ((snapshot: Snapshot) => S | undefined)
+
+/** Options for `observeCached` and `observeOneCached`. */
+export type SnapshotOpts<S> = Readonly<{
+  /** Where to keep snapshots. States must survive a JSON round-trip unless kept in memory. */
+  store: SnapshotStore
+  /**
+   * Version of the saved state; snapshots saved with another version are subject to `onVersionChange`.
+   * Defaults to the version of the Fish’s `fishId` for `observeCached`.
+   */
+  version?: number
+  /** What to do with snapshots saved with another version, `'discard'` by default. */
+  onVersionChange?: InvalidationPolicy<S>
+  /** Minimum time between two saves of the live state, 1 second by default. */
+  saveIntervalMs?: number
+}>
+
+/** A state of an observation with a snapshot cache. */
+export type CachedState<S> = Readonly<{
+  state: S
+  /** Whether the state is the saved snapshot rather than the live state of the Pond. */
+  stale: boolean
+}>
+
+const loadSnapshot = async <S>(
+  key: string,
+  version: number,
+  opts: SnapshotOpts<S>,
+): Promise<S | undefined> => {
+  const { store, onVersionChange = 'discard' } = opts
+  const snapshot = await store.load(key)
+  if (snapshot === undefined) {
+    return undefined
+  }
+  if (snapshot.version === version) {
+    return snapshot.state as S
+  }
+  const migrated =
+    onVersionChange === 'discard' ? undefined : onVersionChange(snapshot)
+  if (migrated === undefined) {
+    await store.remove(key)
+  }
+  return migrated
+}
+
+/**
+ * Emit the saved snapshot as stale state until `live` emits, and save the states of `live`.
+ * Failures of the store are ignored, the observation then just goes without snapshots.
+ */
+const cached = <S>(
+  key: string,
+  version: number,
+  live: Observable<S>,
+  opts: SnapshotOpts<S>,
+): Observable<CachedState<S>> =>
+  defer(() => {
+    const { store, saveIntervalMs = 1_000 } = opts
+    // Replaying, as the live state may be emitted right away to the first subscriber.
+    const states = live.pipe(shareReplay({ bufferSize: 1, refCount: true }))
+    const snapshot = from(loadSnapshot(key, version, opts)).pipe(
+      catchError(() => EMPTY),
+      filter((state): state is S => state !== undefined),
+      map((state): CachedState<S> => ({ state, stale: true })),
+      takeUntil(states),
+    )
+    const saving = states.pipe(
+      throttleTime(saveIntervalMs, asyncScheduler, {
+        leading: true,
+        trailing: true,
+      }),
+      concatMap(state =>
+        from(store.save(key, { version, state, savedAt: Date.now() })).pipe(
+          catchError(() => EMPTY),
+        ),
+      ),
+      ignoreElements(),
+    )
+    // Saving first, so that a state is saved even if the subscriber stops upon receiving it.
+    return merge(
+      snapshot,
+      saving,
+      states.pipe(map((state): CachedState<S> => ({ state, stale: false }))),
+    )
+  })
+
+/**
+ * Create the `observeCached` function of an `RxPond` from its `observe`.
+ * Snapshots are keyed by the Fish’s entity type and name, and saved with its version.
+ */
+export const mkObserveCached = (
+  observe: <S, E>(fish: Fish<S, E>) => Observable<S>,
+) => <S, E>(
+  fish: Fish<S, E>,
+  opts: SnapshotOpts<S>,
+): Observable<CachedState<S>> => {
+  const { entityType, name, version } = fish.fishId
+  return cached(
+    JSON.stringify(['observe', entityType, name]),
+    opts.version !== undefined ? opts.version : version,
+    observe(fish),
+    opts,
+  )
+}
+
+/**
+ * Create the `observeOneCached` function of an `RxPond` from its `observeOne`.
+ * Snapshots are keyed by the seed events selector.
+ */
+export const mkObserveOneCached = (
+  observeOne: <ESeed, S>(
+    seedEventsSelector: Where<ESeed>,
+    makeFish: (seedEvent: ESeed) => Fish<S, any>,
+  ) => Observable<S>,
+) => <ESeed, S>(
+  seedEventsSelector: Where<ESeed>,
+  makeFish: (seedEvent: ESeed) => Fish<S, any>,
+  opts: SnapshotOpts<S> & { version: number },
+): Observable<CachedState<S>> =>
+  cached(
+    JSON.stringify(['observeOne', seedEventsSelector.toString()]),
+    opts.version,
+    observeOne(seedEventsSelector, makeFish),
+    opts,
+  )
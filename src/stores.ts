@@ -0,0 +1,49 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/** A place to keep one JSON-serializable value. */
+export type JsonStore<T> = {
+  /** Load the last saved value, or `undefined` if nothing has been saved yet. */
+  load: () => Promise<T | undefined>
+  /** Save a value, replacing whatever was saved before. */
+  save: (value: T) => Promise<void>
+}
+
+/** Keep the value in memory only. */
+export const inMemoryStore = <T>(initial?: T): JsonStore<T> => {
+  let saved = initial
+  return {
+    load: async () => saved,
+    save: async value => {
+      saved = value
+    },
+  }
+}
+
+/** Keep the value as JSON in the browser’s `localStorage`, or the given storage. */
+export const localStorageStore = <T>(
+  key: string,
+  storage?: Pick<Storage, 'getItem' | 'setItem'>,
+): JsonStore<T> => {
+  const getStorage = () => storage || window.localStorage
+  return {
+    load: async () => {
+      const saved = getStorage().getItem(key)
+      return saved !== null ? JSON.parse(saved) : undefined
+    },
+    save: async value => getStorage().setItem(key, JSON.stringify(value)),
+  }
+}
@@ -0,0 +1,122 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Fish, FishId, Pond, Tag } from '@actyx/pond'
+import { RxPond } from '.'
+import { first, take, toArray } from 'rxjs/operators'
+
+const NumberTag = Tag<number>('number')
+const SumFish: Fish<number, number> = {
+  fishId: FishId.of('SumFish', 'Fish1', 1),
+  initialState: 0,
+  onEvent: (state, e) => state + e,
+  where: NumberTag,
+}
+
+const sleep = (ms: number) => new Promise(res => setTimeout(res, ms))
+
+/** A test Pond whose swarm sync completes only when `completeSync` is called. */
+const mkPond = () => {
+  const testPond = Pond.test()
+  let completeSync = () => undefined as void
+  jest.spyOn(testPond, 'waitForSwarmSync').mockImplementation(config => {
+    completeSync = () => config.onSyncComplete()
+  })
+  const pond = RxPond.from(testPond, { waitForSwarmSync: true })
+  return { pond, completeSync: () => completeSync() }
+}
+
+describe('swarm sync gating', () => {
+  it('delays observations until the swarm sync has completed', async () => {
+    const { pond, completeSync } = mkPond()
+    const states: number[] = []
+    const sub = pond.observe(SumFish).subscribe(s => states.push(s))
+
+    await sleep(50)
+    expect(states).toEqual([])
+
+    completeSync()
+    await pond
+      .observe(SumFish)
+      .pipe(first())
+      .toPromise()
+    sub.unsubscribe()
+    pond.dispose()
+    expect(states).toEqual([0])
+  })
+
+  it('delays event queries and state effects', async () => {
+    const { pond, completeSync } = mkPond()
+    let ran = false
+    const effect = pond
+      .run(SumFish, () => {
+        ran = true
+      })
+      .toPromise()
+    const offsets = pond
+      .events()
+      .currentOffsets()
+      .toPromise()
+
+    await sleep(50)
+    expect(ran).toBe(false)
+
+    completeSync()
+    await offsets
+    await effect
+    pond.dispose()
+    expect(ran).toBe(true)
+  })
+
+  it('runs state effects only when subscribed, like the ungated pond', async () => {
+    const { pond, completeSync } = mkPond()
+    let ran = false
+    pond.run(SumFish, () => {
+      ran = true
+    })
+    const state = pond
+      .observe(SumFish)
+      .pipe(first())
+      .toPromise()
+
+    completeSync()
+    await state
+    await sleep(50)
+    pond.dispose()
+    expect(ran).toBe(false)
+  })
+
+  it('does not delay the ungated pond', async () => {
+    const pond = RxPond.from(Pond.test())
+    const state = await pond
+      .observe(SumFish)
+      .pipe(first())
+      .toPromise()
+    pond.dispose()
+    expect(state).toEqual(0)
+  })
+})
+
+describe('readiness$', () => {
+  it('reports sync progress merged with the pond state', async () => {
+    const { pond, completeSync } = mkPond()
+    const readiness = pond.readiness$.pipe(take(1), toArray()).toPromise()
+    completeSync()
+    const [ready] = await readiness
+    pond.dispose()
+
+    expect(ready).toMatchObject({ sync: undefined, synced: true, ready: true })
+  })
+})
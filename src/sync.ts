@@ -0,0 +1,203 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { CancelSubscription, Pond, PondState, SplashState } from '@actyx/pond'
+import { combineLatest, concat, Observable, of } from 'rxjs'
+import {
+  endWith,
+  ignoreElements,
+  map,
+  shareReplay,
+  switchMap,
+} from 'rxjs/operators'
+import { RxEventFn } from './events'
+import { RxPond } from './index'
+import { mkObserveCached, mkObserveOneCached } from './snapshots'
+
+/** Combined loading state of an `RxPond`, for showing one loading indicator. */
+export type Readiness = Readonly<{
+  /** Progress of the swarm sync; `undefined` once it has completed. */
+  sync: SplashState | undefined
+  /** Whether the swarm sync has completed. */
+  synced: boolean
+  /** What the Pond is currently doing. */
+  pondState: PondState
+  /** Whether the Pond is hydrating Fish or processing commands or events, see `PondState.isBusy`. */
+  busy: boolean
+  /** Synced and not busy. */
+  ready: boolean
+}>
+
+/**
+ * Create the `readiness$` Observable of an `RxPond`, merging the progress of the swarm sync
+ * with the state of the Pond.
+ */
+export const mkReadiness$ = (
+  waitForSwarmSync: () => Observable<SplashState>,
+  getPondState: () => Observable<PondState>,
+): Observable<Readiness> =>
+  combineLatest([
+    concat(
+      waitForSwarmSync().pipe(
+        map(sync => ({ sync: sync as SplashState | undefined, synced: false })),
+      ),
+      of({ sync: undefined, synced: true }),
+    ),
+    getPondState(),
+  ]).pipe(
+    map(([{ sync, synced }, pondState]) => {
+      const busy = PondState.isBusy(pondState)
+      return { sync, synced, pondState, busy, ready: synced && !busy }
+    }),
+  )
+
+/** Create the `readiness$` Observable of a plain Pond. */
+export const pondReadiness$ = (pond: Pond): Observable<Readiness> =>
+  mkReadiness$(
+    () =>
+      new Observable<SplashState>(o =>
+        pond.waitForSwarmSync({
+          onProgress: v => o.next(v),
+          onSyncComplete: () => o.complete(),
+        }),
+      ),
+    () => new Observable<PondState>(o => pond.getPondState(v => o.next(v))),
+  )
+
+const noop = () => undefined
+
+/**
+ * Make all observations, state effects and event queries of the given `RxPond` wait until
+ * the swarm sync has completed. Emission of events is not delayed.
+ */
+export const withSwarmSync = (rxPond: RxPond): RxPond => {
+  const synced$ = rxPond
+    .waitForSwarmSync()
+    .pipe(ignoreElements(), endWith(undefined), shareReplay(1))
+  const gate = <T>(f: () => Observable<T>): Observable<T> =>
+    synced$.pipe(switchMap(f))
+
+  const events = (): RxEventFn => {
+    const inner = rxPond.events()
+    return {
+      ...inner,
+      currentOffsets: () => gate(() => inner.currentOffsets()),
+      queryKnownRange: query => gate(() => inner.queryKnownRange(query)),
+      queryKnownRangeChunked: (query, chunkSize) =>
+        gate(() => inner.queryKnownRangeChunked(query, chunkSize)),
+      processKnownRangeChunked: (query, chunkSize, process) =>
+        gate(() => inner.processKnownRangeChunked(query, chunkSize, process)),
+      queryAllKnown: query => gate(() => inner.queryAllKnown(query)),
+      queryAllKnownChunked: (query, chunkSize) =>
+        gate(() => inner.queryAllKnownChunked(query, chunkSize)),
+      processAllKnownChunked: (query, chunkSize, process) =>
+        gate(() => inner.processAllKnownChunked(query, chunkSize, process)),
+      subscribe: query => gate(() => inner.subscribe(query)),
+      subscribeFromCheckpoint: (query, store) =>
+        gate(() => inner.subscribeFromCheckpoint(query, store)),
+      catchUpAndFollow: (query, chunkSize) =>
+        gate(() => inner.catchUpAndFollow(query, chunkSize)),
+      withDecoders: decoders => {
+        const decoded = inner.withDecoders(decoders)
+        return {
+          ...decoded,
+          queryKnownRange: query => gate(() => decoded.queryKnownRange(query)),
+          subscribe: query => gate(() => decoded.subscribe(query)),
+        }
+      },
+      exportNdjson: (query, chunkSize) =>
+        gate(() => inner.exportNdjson(query, chunkSize)),
+      observeEarliest: query => gate(() => inner.observeEarliest(query)),
+      observeLatest: query => gate(() => inner.observeLatest(query)),
+      observeBestMatch: (query, shouldReplace) =>
+        gate(() => inner.observeBestMatch(query, shouldReplace)),
+      observeUnorderedReduce: (query, reduce, initial) =>
+        gate(() => inner.observeUnorderedReduce(query, reduce, initial)),
+    }
+  }
+
+  // No spreading, so that getters like `originalPond` of resilient ponds are not evaluated early.
+  const synced: RxPond = {
+    emit: (tags, event) => rxPond.emit(tags, event),
+
+    observe: fish => gate(() => rxPond.observe(fish)),
+
+    observeRxFish: fish => gate(() => rxPond.observeRxFish(fish)),
+
+    observeAll: (seedEventsSelector, makeFish, opts) =>
+      gate(() => rxPond.observeAll(seedEventsSelector, makeFish, opts)),
+
+    observeAllChanges: (seedEventsSelector, makeFish, opts) =>
+      gate(() => rxPond.observeAllChanges(seedEventsSelector, makeFish, opts)),
+
+    observeJoined: (fishes, project) =>
+      gate(() => rxPond.observeJoined(fishes, project)),
+
+    observeOne: (seedEventSelector, makeFish) =>
+      gate(() => rxPond.observeOne(seedEventSelector, makeFish)),
+
+    // The snapshot is emitted right away, only the live state waits for the sync.
+    observeCached: (fish, opts) =>
+      mkObserveCached(f => gate(() => rxPond.observe(f)))(fish, opts),
+
+    observeOneCached: (seedEventSelector, makeFish, opts) =>
+      mkObserveOneCached((selector, mk) =>
+        gate(() => rxPond.observeOne(selector, mk)),
+      )(seedEventSelector, makeFish, opts),
+
+    run: (fish, fn) => gate(() => rxPond.run(fish, fn)),
+
+    keepRunning: (fish, fn, autoCancel) => {
+      let cancel: CancelSubscription | undefined = undefined
+      // Nothing to run if the Pond is disposed of before the sync has completed.
+      const sub = synced$
+        .pipe(map(() => rxPond.keepRunning(fish, fn, autoCancel)))
+        .subscribe(c => (cancel = c), noop)
+      return () => {
+        sub.unsubscribe()
+        cancel !== undefined && cancel()
+      }
+    },
+
+    keepRunning$: (fish, fn, autoCancel) =>
+      gate(() => rxPond.keepRunning$(fish, fn, autoCancel)),
+
+    dispatch: (handler, command, opts) =>
+      gate(() => rxPond.dispatch(handler, command, opts)),
+
+    outbox: opts => rxPond.outbox(opts),
+
+    dispose: () => rxPond.dispose(),
+
+    info: () => rxPond.info(),
+
+    getPondState: () => rxPond.getPondState(),
+
+    waitForSwarmSync: () => rxPond.waitForSwarmSync(),
+
+    readiness$: rxPond.readiness$,
+
+    health$: rxPond.health$,
+
+    whenSynced: () => synced,
+
+    events,
+
+    get originalPond() {
+      return rxPond.originalPond
+    },
+  }
+  return synced
+}
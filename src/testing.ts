@@ -0,0 +1,70 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Lamport, Offset, TestEvent, Timestamp } from '@actyx/pond'
+
+/**
+ * An event to be injected into an in-memory `RxPond`.
+ * All fields except `tags` and `payload` are optional and filled in with sensible defaults.
+ */
+export type TestEventInput = {
+  /** Tags attached to the event. E.g. `['myTag', 'myTag:1']` */
+  tags: ReadonlyArray<string>
+  /** The event payload. */
+  payload: unknown
+  /** Stream the event belongs to. Defaults to a stream that is not the local one. */
+  stream?: string
+  /** Offset of the event within its stream. Defaults to the next offset of the given stream. */
+  offset?: Offset
+  /** Lamport time of the event. Defaults to one higher than the last event injected. */
+  lamport?: Lamport
+  /** Timestamp of the event in microseconds. Defaults to `Timestamp.now()`. */
+  timestamp?: Timestamp
+}
+
+/** Stream that injected events are assigned to if none is given. */
+export const defaultTestStream = 'TEST-REMOTE-0'
+
+/**
+ * Create a function that turns `TestEventInput` into `TestEvent`, keeping track of
+ * the offsets per stream and of the lamport time to fill in missing fields.
+ */
+export const mkTestEventFactory = (): ((
+  input: TestEventInput,
+) => TestEvent) => {
+  const nextOffsets: Record<string, Offset> = {}
+  let lastLamport = Lamport.zero
+
+  return input => {
+    const stream = input.stream || defaultTestStream
+    const offset =
+      input.offset !== undefined ? input.offset : nextOffsets[stream] || 0
+    const lamport =
+      input.lamport !== undefined ? input.lamport : lastLamport + 1
+
+    nextOffsets[stream] = Math.max(nextOffsets[stream] || 0, offset + 1)
+    lastLamport = Math.max(lastLamport, lamport)
+
+    return {
+      stream,
+      offset,
+      lamport,
+      timestamp:
+        input.timestamp !== undefined ? input.timestamp : Timestamp.now(),
+      tags: input.tags,
+      payload: input.payload,
+    }
+  }
+}
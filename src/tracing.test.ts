@@ -0,0 +1,236 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { Fish, FishId, Tag } from '@actyx/pond'
+import { RxPond, Session, TraceSink, TraceSpan } from '.'
+import { first, take, toArray } from 'rxjs/operators'
+
+const InputTag = Tag<string>('input')
+const InputFish: Fish<string[], string> = {
+  fishId: FishId.of('InputFish', 'inputs', 1),
+  initialState: [],
+  onEvent: (state, e) => [...state, e],
+  where: InputTag,
+}
+
+describe('tracing', () => {
+  it('records emissions and the states of observed Fish', async () => {
+    const sink = TraceSink.ringBuffer()
+    const pond = RxPond.test(undefined, { trace: sink })
+
+    await pond.emit(InputTag, 'a').toPromise()
+    await pond
+      .observe(InputFish)
+      .pipe(first(state => state.length > 0))
+      .toPromise()
+    await pond.dispose()
+
+    expect(sink.records().map(r => r.type)).toEqual([
+      'emit',
+      'subscribe',
+      'state',
+      'unsubscribe',
+    ])
+    expect(sink.records({ type: 'emit' })).toMatchObject([
+      {
+        events: [{ tags: ['input'], event: 'a' }],
+        metadata: [{ tags: ['input'] }],
+      },
+    ])
+    expect(sink.records({ fishId: InputFish.fishId })).toMatchObject([
+      { type: 'subscribe', operation: 'observe' },
+      { type: 'state', state: ['a'] },
+      { type: 'unsubscribe', reason: 'unsubscribed', emissions: 1 },
+    ])
+    expect(sink.records({ fishId: FishId.of('other', 'fish', 1) })).toEqual([])
+  })
+
+  it('records emissions through an outbox', async () => {
+    const sink = TraceSink.ringBuffer()
+    const pond = RxPond.test(undefined, { trace: sink })
+    const outbox = pond.outbox()
+
+    await outbox.emit(InputTag, 'a').toPromise()
+    outbox.dispose()
+    await pond.dispose()
+
+    expect(sink.records({ type: 'emit' })).toMatchObject([
+      { events: [{ tags: ['input'], event: 'a' }] },
+    ])
+  })
+
+  it('records queries and subscriptions with their events', async () => {
+    const sink = TraceSink.ringBuffer()
+    const pond = RxPond.test(undefined, { trace: sink })
+    pond.directlyPushEvents([
+      { tags: ['input'], payload: 'a' },
+      { tags: ['input'], payload: 'b' },
+    ])
+
+    await pond
+      .events()
+      .queryAllKnown({ query: InputTag })
+      .toPromise()
+    await pond
+      .events()
+      .subscribe({ query: InputTag })
+      .pipe(take(2))
+      .toPromise()
+    await pond.dispose()
+
+    expect(sink.records({ type: 'query' })).toMatchObject([
+      {
+        operation: 'queryAllKnown',
+        target: "'input'",
+        events: 2,
+        error: undefined,
+      },
+    ])
+    expect(
+      sink
+        .records({ type: 'event' })
+        .map(r => r.type === 'event' && r.event.payload),
+    ).toEqual(['a', 'b'])
+    expect(sink.records({ type: 'unsubscribe' })).toMatchObject([
+      { operation: 'queryAllKnown', reason: 'completed', emissions: 1 },
+      { operation: 'subscribe', reason: 'unsubscribed', emissions: 2 },
+    ])
+  })
+
+  it('exports spans and logs records', async () => {
+    const spans: TraceSpan[] = []
+    const log = jest.fn()
+    const pond = RxPond.test(undefined, {
+      trace: TraceSink.all(
+        TraceSink.spans({ export: s => spans.push(...s) }),
+        TraceSink.console(log),
+      ),
+    })
+    pond.directlyPushEvents([{ tags: ['input'], payload: 'a' }])
+
+    await pond
+      .observe(InputFish)
+      .pipe(first(state => state.length > 0))
+      .toPromise()
+    await pond.dispose()
+
+    expect(spans).toMatchObject([
+      {
+        name: 'rxPond.observe',
+        attributes: {
+          target: FishId.canonical(InputFish.fishId),
+          emissions: 1,
+        },
+        events: [{ name: 'state' }],
+        error: false,
+      },
+    ])
+    expect(log.mock.calls.map(([line]) => line)).toEqual([
+      expect.stringMatching(/^\[rx-pond\] subscribe #\d+ observe /),
+      expect.stringMatching(/^\[rx-pond\] state #\d+ .*\["a"\]$/),
+      expect.stringMatching(/^\[rx-pond\] unsubscribe .* after 1 emissions$/),
+    ])
+  })
+
+  it('replays a recorded session', async () => {
+    const recorder = Session.record()
+    const pond = RxPond.test(undefined, { trace: recorder })
+    pond.directlyPushEvents([{ tags: ['input'], payload: 'a' }])
+    await pond.emit(InputTag, 'b').toPromise()
+    const state = await pond
+      .observe(InputFish)
+      .pipe(first(s => s.length === 2))
+      .toPromise()
+    await pond.dispose()
+
+    // A session survives serialization.
+    const session = JSON.parse(JSON.stringify(recorder.session()))
+    const replayed = RxPond.test()
+    Session.replay(session, replayed)
+    const replayedState = await replayed
+      .observe(InputFish)
+      .pipe(first(s => s.length === 2))
+      .toPromise()
+    await replayed.dispose()
+
+    expect(state).toEqual(['a', 'b'])
+    expect(replayedState).toEqual(['a', 'b'])
+    expect(session.events.map((e: { payload: string }) => e.payload)).toEqual([
+      'a',
+      'b',
+    ])
+  })
+
+  it('traces state effects, commands and further observations', async () => {
+    const sink = TraceSink.ringBuffer()
+    const pond = RxPond.test(undefined, { trace: sink })
+
+    await pond
+      .run(InputFish, (_, enqueue) => enqueue(InputTag, 'a'))
+      .toPromise()
+    await pond
+      .observeAll(InputTag, () => InputFish, {})
+      .pipe(first())
+      .toPromise()
+    await pond
+      .events()
+      .processAllKnownChunked({ query: InputTag }, 10, chunk => [chunk])
+      .toPromise()
+    await pond.dispose()
+
+    expect(sink.records({ type: 'subscribe' })).toMatchObject([
+      { operation: 'run', fishId: InputFish.fishId },
+      { operation: 'observeAll', target: "'input'" },
+      { operation: 'processAllKnownChunked' },
+    ])
+    expect(sink.records({ type: 'query' })).toMatchObject([
+      { operation: 'processAllKnownChunked', events: 1 },
+    ])
+  })
+
+  it('keeps filtering by Fish while the buffer holds records of its subscription', async () => {
+    const sink = TraceSink.ringBuffer(2)
+    const pond = RxPond.test(undefined, { trace: sink })
+    pond.directlyPushEvents([{ tags: ['input'], payload: 'a' }])
+
+    await pond
+      .observe(InputFish)
+      .pipe(first())
+      .toPromise()
+    await pond.dispose()
+
+    expect(sink.records({ fishId: InputFish.fishId })).toMatchObject([
+      { type: 'state', state: ['a'] },
+      { type: 'unsubscribe' },
+    ])
+  })
+
+  it('records the events emitted by state effects for replay', async () => {
+    const recorder = Session.record()
+    const pond = RxPond.test(undefined, { trace: recorder })
+    await pond
+      .events()
+      .currentOffsets()
+      .toPromise()
+
+    await pond
+      .run(InputFish, (_, enqueue) => enqueue(InputTag, 'a'))
+      .toPromise()
+    await new Promise(resolve => setTimeout(resolve, 50))
+    await pond.dispose()
+
+    expect(recorder.session().events.map(e => e.payload)).toEqual(['a'])
+  })
+})
@@ -0,0 +1,882 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import {
+  ActyxEvent,
+  allEvents,
+  Fish,
+  FishId,
+  Metadata,
+  TaggedEvent,
+  Tags,
+  Where,
+} from '@actyx/pond'
+import { defer, NEVER, Observable, Subscription } from 'rxjs'
+import { map, switchMap, tap } from 'rxjs/operators'
+import { describeTaggedEvents, describeWhere } from './errors'
+import { RxEventFn } from './events'
+import { RxPond, TestRxPond } from './index'
+import { mkOutbox } from './outbox'
+import { TestEventInput } from './testing'
+
+/** Why a traced subscription has ended. */
+export type EndReason = 'unsubscribed' | 'completed' | 'errored'
+
+/** What happened in a traced `RxPond`. Times are in milliseconds since the epoch. */
+export type TraceRecord =
+  /** An Observable has been subscribed to. */
+  | Readonly<{
+      type: 'subscribe'
+      at: number
+      /** Identifies the subscription in later records. */
+      subscription: number
+      /** The member of `RxPond` or `RxEventFn` the Observable was obtained from. */
+      operation: string
+      /** What is observed: the canonical `fishId` or the query. */
+      target: string
+      /** The Fish observed or affected, if known upfront. */
+      fishId?: FishId
+    }>
+  /** A subscription has ended. */
+  | Readonly<{
+      type: 'unsubscribe'
+      at: number
+      subscription: number
+      operation: string
+      target: string
+      reason: EndReason
+      /** Number of values delivered to the subscriber. */
+      emissions: number
+    }>
+  /** An observed Fish has a new state. */
+  | Readonly<{
+      type: 'state'
+      at: number
+      subscription: number
+      fishId: FishId
+      state: unknown
+    }>
+  /** An event has been delivered to a subscription. */
+  | Readonly<{
+      type: 'event'
+      at: number
+      subscription: number
+      event: ActyxEvent
+    }>
+  /** Events have been emitted, or their emission has failed. */
+  | Readonly<{
+      type: 'emit'
+      at: number
+      durationMs: number
+      events: ReadonlyArray<TaggedEvent>
+      metadata: ReadonlyArray<Metadata>
+      error?: unknown
+    }>
+  /** A query has finished. */
+  | Readonly<{
+      type: 'query'
+      at: number
+      durationMs: number
+      subscription: number
+      operation: string
+      target: string
+      /** Number of events delivered. */
+      events: number
+      error?: unknown
+    }>
+
+/** Where trace records go, see `RxPondOptions.trace`. */
+export type TraceSink = Readonly<{
+  record: (record: TraceRecord) => void
+  /**
+   * Also record the events delivered by queries, the events behind observed Fish states, and all
+   * events emitted by this node, which are subscribed to for this purpose. Needed to replay a session.
+   */
+  captureEvents?: boolean
+}>
+
+/** Selection of trace records. */
+export type TraceFilter = Readonly<{
+  type?: TraceRecord['type']
+  subscription?: number
+  /** Records of this Fish, i.e. its states and its subscriptions. */
+  fishId?: FishId
+  /** Records at or after this time. */
+  since?: number
+}>
+
+/** A `TraceSink` keeping the latest records in memory. */
+export type RingBufferSink = TraceSink &
+  Readonly<{
+    /** The kept records matching `filter`, oldest first. */
+    records: (filter?: TraceFilter) => TraceRecord[]
+    /** Drop all kept records. */
+    clear: () => void
+  }>
+
+/** A span, in the style of OpenTelemetry. Times are in milliseconds since the epoch. */
+export type TraceSpan = Readonly<{
+  name: string
+  startTime: number
+  endTime: number
+  attributes: Readonly<Record<string, string | number | boolean>>
+  /** Things that happened during the span, e.g. the states of an observed Fish. */
+  events: ReadonlyArray<
+    Readonly<{
+      name: string
+      time: number
+      attributes: Readonly<Record<string, string | number | boolean>>
+    }>
+  >
+  /** Whether the traced operation has failed. */
+  error: boolean
+}>
+
+/** Receives finished spans, in the style of an OpenTelemetry `SpanExporter`. */
+export type SpanExporter = Readonly<{
+  export: (spans: ReadonlyArray<TraceSpan>) => void
+}>
+
+/** The events seen during a traced session, to be replayed with `Session.replay`. */
+export type RecordedSession = Readonly<{
+  events: ReadonlyArray<TestEventInput>
+}>
+
+/** A `TraceSink` collecting the events of a session. */
+export type SessionRecorder = TraceSink &
+  Readonly<{
+    /** The events seen so far, in the order of their lamport time. JSON-serializable. */
+    session: () => RecordedSession
+  }>
+
+const describeRecord = (record: TraceRecord): string => {
+  switch (record.type) {
+    case 'subscribe':
+      return `#${record.subscription} ${record.operation} ${record.target}`
+    case 'unsubscribe':
+      return `#${record.subscription} ${record.operation} ${record.target} ${record.reason} after ${record.emissions} emissions`
+    case 'state':
+      return `#${record.subscription} ${FishId.canonical(
+        record.fishId,
+      )} ${JSON.stringify(record.state)}`
+    case 'event':
+      return `#${record.subscription} ${
+        record.event.meta.eventId
+      } ${JSON.stringify(record.event.payload)}`
+    case 'emit':
+      return `${describeTaggedEvents(record.events)} ${
+        record.error !== undefined ? 'failed' : 'persisted'
+      } in ${record.durationMs}ms`
+    case 'query':
+      return `#${record.subscription} ${record.operation} ${record.target} ${
+        record.error !== undefined ? 'failed' : `${record.events} events`
+      } in ${record.durationMs}ms`
+  }
+}
+
+const matchesFilter = (filter: TraceFilter, fishIds: Map<number, string>) => (
+  record: TraceRecord,
+): boolean =>
+  (filter.type === undefined || record.type === filter.type) &&
+  (filter.since === undefined || record.at >= filter.since) &&
+  (filter.subscription === undefined ||
+    ('subscription' in record &&
+      record.subscription === filter.subscription)) &&
+  (filter.fishId === undefined ||
+    ('subscription' in record &&
+      fishIds.get(record.subscription) === FishId.canonical(filter.fishId)))
+
+/** Factories for the `TraceSink`s that come with RxPond. */
+export const TraceSink = {
+  /** Log one line per record. */
+  console: (
+    log: (message: string) => void = message => console.log(message),
+  ): TraceSink => ({
+    record: record => log(`[rx-pond] ${record.type} ${describeRecord(record)}`),
+  }),
+
+  /** Keep the latest `capacity` records in memory, 1000 by default. */
+  ringBuffer: (capacity = 1_000): RingBufferSink => {
+    let buffer: TraceRecord[] = []
+    // Fish of the subscriptions, for filtering by `fishId`, kept while the buffer holds any
+    // record of the subscription.
+    const fishIds = new Map<number, string>()
+    const buffered = new Map<number, number>()
+    return {
+      record: record => {
+        buffer.push(record)
+        if ('subscription' in record) {
+          const { subscription } = record
+          buffered.set(subscription, (buffered.get(subscription) || 0) + 1)
+          const fishId =
+            record.type === 'state' ||
+            (record.type === 'subscribe' && record.fishId !== undefined)
+              ? record.fishId
+              : undefined
+          if (fishId !== undefined) {
+            fishIds.set(subscription, FishId.canonical(fishId))
+          }
+        }
+        const evicted = buffer.length > capacity ? buffer.shift() : undefined
+        if (evicted !== undefined && 'subscription' in evicted) {
+          const { subscription } = evicted
+          const remaining = (buffered.get(subscription) || 1) - 1
+          if (remaining > 0) {
+            buffered.set(subscription, remaining)
+          } else {
+            buffered.delete(subscription)
+            fishIds.delete(subscription)
+          }
+        }
+      },
+      records: (filter = {}) => buffer.filter(matchesFilter(filter, fishIds)),
+      clear: () => {
+        buffer = []
+        fishIds.clear()
+        buffered.clear()
+      },
+    }
+  },
+
+  /**
+   * Turn subscriptions, queries and emissions into spans. Subscriptions are exported once they
+   * have ended, with their states and events as span events.
+   */
+  spans: (exporter: SpanExporter): TraceSink => {
+    const open = new Map<
+      number,
+      {
+        startTime: number
+        operation: string
+        events: TraceSpan['events'][number][]
+      }
+    >()
+    return {
+      record: record => {
+        switch (record.type) {
+          case 'subscribe':
+            open.set(record.subscription, {
+              startTime: record.at,
+              operation: record.operation,
+              events: [],
+            })
+            return
+          case 'state':
+          case 'event': {
+            const span = open.get(record.subscription)
+            if (span !== undefined) {
+              span.events.push(
+                record.type === 'state'
+                  ? {
+                      name: 'state',
+                      time: record.at,
+                      attributes: { fishId: FishId.canonical(record.fishId) },
+                    }
+                  : {
+                      name: 'event',
+                      time: record.at,
+                      attributes: { eventId: record.event.meta.eventId },
+                    },
+              )
+            }
+            return
+          }
+          case 'unsubscribe': {
+            const span = open.get(record.subscription)
+            open.delete(record.subscription)
+            if (span !== undefined) {
+              exporter.export([
+                {
+                  name: `rxPond.${record.operation}`,
+                  startTime: span.startTime,
+                  endTime: record.at,
+                  attributes: {
+                    target: record.target,
+                    reason: record.reason,
+                    emissions: record.emissions,
+                  },
+                  events: span.events,
+                  error: record.reason === 'errored',
+                },
+              ])
+            }
+            return
+          }
+          case 'query':
+            exporter.export([
+              {
+                name: `rxPond.${record.operation}`,
+                startTime: record.at,
+                endTime: record.at + record.durationMs,
+                attributes: { target: record.target, events: record.events },
+                events: [],
+                error: record.error !== undefined,
+              },
+            ])
+            return
+          case 'emit':
+            exporter.export([
+              {
+                name: 'rxPond.emit',
+                startTime: record.at,
+                endTime: record.at + record.durationMs,
+                attributes: {
+                  tags: describeTaggedEvents(record.events),
+                  events: record.events.length,
+                },
+                events: [],
+                error: record.error !== undefined,
+              },
+            ])
+            return
+        }
+      },
+    }
+  },
+
+  /** Pass records on to all of the given sinks. */
+  all: (...sinks: TraceSink[]): TraceSink => ({
+    record: record => sinks.forEach(sink => sink.record(record)),
+    captureEvents: sinks.some(sink => sink.captureEvents),
+  }),
+}
+
+const toTestEvent = (event: ActyxEvent): TestEventInput => ({
+  tags: event.meta.tags,
+  payload: event.payload,
+  stream: event.meta.stream,
+  offset: event.meta.offset,
+  lamport: event.meta.lamport,
+  timestamp: event.meta.timestampMicros,
+})
+
+/** Recording sessions, and replaying them into an in-memory `RxPond` for reproduction. */
+export const Session = {
+  /** Get a sink recording the events seen by a traced `RxPond`. */
+  record: (): SessionRecorder => {
+    const events = new Map<string, TestEventInput>()
+    const add = (event: TestEventInput) =>
+      events.set(`${event.stream}/${event.offset}`, event)
+    return {
+      captureEvents: true,
+      record: record => {
+        if (record.type === 'event') {
+          add(toTestEvent(record.event))
+        } else if (record.type === 'emit') {
+          record.metadata.forEach((meta, i) =>
+            add({
+              tags: meta.tags,
+              payload: record.events[i].event,
+              stream: meta.stream,
+              offset: meta.offset,
+              lamport: meta.lamport,
+              timestamp: meta.timestampMicros,
+            }),
+          )
+        }
+      },
+      session: () => ({
+        events: Array.from(events.values()).sort(
+          (a, b) => (a.lamport || 0) - (b.lamport || 0),
+        ),
+      }),
+    }
+  },
+
+  /** Inject the events of a recorded session into an in-memory `RxPond`. */
+  replay: (session: RecordedSession, pond: TestRxPond): void =>
+    pond.directlyPushEvents(session.events),
+}
+
+let nextSubscription = 0
+
+const noop = () => undefined
+
+/** How one traced subscription gets its values and what it does with them. */
+type Tracer<T> = Readonly<{
+  source: Observable<T>
+  /** Called for each value delivered. */
+  onValue?: (value: T) => void
+  /** Called when the source completes or errors. */
+  onEnd?: (error?: unknown) => void
+}>
+
+/**
+ * Trace the subscriptions to an Observable. `mkTracer` is called once per subscription,
+ * so that it may keep state of its own.
+ */
+const traced = <T>(
+  sink: TraceSink,
+  operation: string,
+  target: string,
+  mkTracer: (subscription: number) => Tracer<T>,
+  fishId?: FishId,
+): Observable<T> =>
+  new Observable<T>(o => {
+    const subscription = nextSubscription++
+    let emissions = 0
+    let reason: EndReason = 'unsubscribed'
+    sink.record({
+      type: 'subscribe',
+      at: Date.now(),
+      subscription,
+      operation,
+      target,
+      fishId,
+    })
+    const { source, onValue = noop, onEnd = noop } = mkTracer(subscription)
+    const sub = source.subscribe(
+      value => {
+        emissions += 1
+        onValue(value)
+        o.next(value)
+      },
+      err => {
+        reason = 'errored'
+        onEnd(err)
+        o.error(err)
+      },
+      () => {
+        reason = 'completed'
+        onEnd()
+        o.complete()
+      },
+    )
+    return () => {
+      sub.unsubscribe()
+      sink.record({
+        type: 'unsubscribe',
+        at: Date.now(),
+        subscription,
+        operation,
+        target,
+        reason,
+        emissions,
+      })
+    }
+  })
+
+/** Trace the subscriptions to the Observable created by `source`, without looking at its values. */
+const tracedOnly = <T>(
+  sink: TraceSink,
+  operation: string,
+  target: string,
+  source: () => Observable<T>,
+  fishId?: FishId,
+): Observable<T> =>
+  traced(sink, operation, target, () => ({ source: source() }), fishId)
+
+const asEvent = <E>({
+  event,
+  metadata,
+}: {
+  event: E
+  metadata: Metadata
+}): ActyxEvent<E> => ({ meta: metadata, payload: event })
+
+/**
+ * Trace the event functions of an `RxPond`: subscriptions with their events, queries with their
+ * durations and event counts, and emissions. `currentOffsets`, `withDecoders` and the NDJSON
+ * functions are not traced.
+ */
+export const traceEvents = (inner: RxEventFn, sink: TraceSink): RxEventFn => {
+  const recordEvent = (subscription: number) => (event: ActyxEvent) =>
+    sink.record({ type: 'event', at: Date.now(), subscription, event })
+
+  /** Trace a query, which reports the events it delivers to `onEvents`. */
+  const query = <T>(
+    operation: string,
+    where: Where<unknown> | undefined,
+    mkSource: (
+      onEvents: (events: ReadonlyArray<ActyxEvent>) => void,
+    ) => Observable<T>,
+  ): Observable<T> =>
+    traced(sink, operation, describeWhere(where), subscription => {
+      const start = Date.now()
+      let count = 0
+      const onEvents = (events: ReadonlyArray<ActyxEvent>) => {
+        count += events.length
+        if (sink.captureEvents) {
+          events.forEach(recordEvent(subscription))
+        }
+      }
+      return {
+        source: mkSource(onEvents),
+        onEnd: error =>
+          sink.record({
+            type: 'query',
+            at: start,
+            durationMs: Date.now() - start,
+            subscription,
+            operation,
+            target: describeWhere(where),
+            events: count,
+            error,
+          }),
+      }
+    })
+
+  /** Trace a subscription, recording the events it delivers. */
+  const subscription = <T>(
+    operation: string,
+    where: Where<unknown> | undefined,
+    source: () => Observable<T>,
+    eventsOf: (value: T) => ReadonlyArray<ActyxEvent>,
+  ): Observable<T> =>
+    traced(sink, operation, describeWhere(where), sub => ({
+      source: source(),
+      onValue: value => eventsOf(value).forEach(recordEvent(sub)),
+    }))
+
+  // Emissions happen right away, so they are recorded once, no matter the subscribers.
+  const emit = (events: ReadonlyArray<TaggedEvent>): Observable<Metadata[]> => {
+    const start = Date.now()
+    const record = (metadata: ReadonlyArray<Metadata>, error?: unknown) =>
+      sink.record({
+        type: 'emit',
+        at: start,
+        durationMs: Date.now() - start,
+        events,
+        metadata,
+        error,
+      })
+    const emitted = inner.emit(events)
+    emitted.subscribe(
+      metadata => record(metadata),
+      err => record([], err),
+    )
+    return emitted
+  }
+
+  return {
+    ...inner,
+    subscribe: q =>
+      subscription(
+        'subscribe',
+        q.query,
+        () => inner.subscribe(q),
+        e => [e],
+      ),
+    subscribeFromCheckpoint: (q, store) =>
+      subscription(
+        'subscribeFromCheckpoint',
+        q.query,
+        () => inner.subscribeFromCheckpoint(q, store),
+        ({ event }) => [event],
+      ),
+    catchUpAndFollow: (q, chunkSize) =>
+      subscription(
+        'catchUpAndFollow',
+        q.query,
+        () => inner.catchUpAndFollow(q, chunkSize),
+        message =>
+          message.type === 'chunk'
+            ? message.chunk.events
+            : message.type === 'event'
+            ? [message.event]
+            : [],
+      ),
+    queryKnownRange: q =>
+      query('queryKnownRange', q.query, onEvents =>
+        inner.queryKnownRange(q).pipe(tap(events => onEvents(events))),
+      ),
+    queryKnownRangeChunked: (q, chunkSize) =>
+      query('queryKnownRangeChunked', q.query, onEvents =>
+        inner
+          .queryKnownRangeChunked(q, chunkSize)
+          .pipe(tap(chunk => onEvents(chunk.events))),
+      ),
+    processKnownRangeChunked: (q, chunkSize, process) =>
+      query('processKnownRangeChunked', q.query, onEvents =>
+        inner.processKnownRangeChunked(q, chunkSize, chunk => {
+          onEvents(chunk.events)
+          return process(chunk)
+        }),
+      ),
+    queryAllKnown: q =>
+      query('queryAllKnown', q.query, onEvents =>
+        inner.queryAllKnown(q).pipe(tap(chunk => onEvents(chunk.events))),
+      ),
+    queryAllKnownChunked: (q, chunkSize) =>
+      query('queryAllKnownChunked', q.query, onEvents =>
+        inner
+          .queryAllKnownChunked(q, chunkSize)
+          .pipe(tap(chunk => onEvents(chunk.events))),
+      ),
+    processAllKnownChunked: (q, chunkSize, process) =>
+      query('processAllKnownChunked', q.query, onEvents =>
+        inner.processAllKnownChunked(q, chunkSize, chunk => {
+          onEvents(chunk.events)
+          return process(chunk)
+        }),
+      ),
+    observeEarliest: q =>
+      subscription(
+        'observeEarliest',
+        q.query,
+        () => inner.observeEarliest(q),
+        value => [asEvent(value)],
+      ),
+    observeLatest: q =>
+      subscription(
+        'observeLatest',
+        q.query,
+        () => inner.observeLatest(q),
+        value => [asEvent(value)],
+      ),
+    observeBestMatch: (where, shouldReplace) =>
+      subscription(
+        'observeBestMatch',
+        where,
+        () => inner.observeBestMatch(where, shouldReplace),
+        value => [asEvent(value)],
+      ),
+    observeUnorderedReduce: (where, reduce, initial) =>
+      tracedOnly(sink, 'observeUnorderedReduce', describeWhere(where), () =>
+        inner.observeUnorderedReduce(where, reduce, initial),
+      ),
+    emit,
+  }
+}
+
+/**
+ * Trace `rxPond`: emissions, subscriptions to its Observables, the states of observed Fish,
+ * state effects and commands, and everything traced by `traceEvents`.
+ * If the sink captures events, the events emitted by this node are recorded as well, so that
+ * those of state effects and commands are part of a recorded session.
+ */
+export const withTracing = (rxPond: RxPond, sink: TraceSink): RxPond => {
+  const events = () => traceEvents(rxPond.events(), sink)
+
+  const recordState = (subscription: number, fishId: FishId) => (
+    state: unknown,
+  ) =>
+    sink.record({ type: 'state', at: Date.now(), subscription, fishId, state })
+
+  /** Record the events behind the states of a Fish, if the sink wants them. */
+  const captureEvents = (where: Where<unknown>, subscription: number) =>
+    sink.captureEvents
+      ? rxPond
+          .events()
+          .subscribe({ query: where })
+          .subscribe(
+            event =>
+              sink.record({
+                type: 'event',
+                at: Date.now(),
+                subscription,
+                event,
+              }),
+            noop,
+          )
+      : Subscription.EMPTY
+
+  /** Trace an observation of `fish`, recording its states and the events behind them. */
+  const observeFish = <S, T>(
+    operation: string,
+    fish: Fish<S, any>,
+    source: () => Observable<T>,
+    stateOf: (value: T) => S,
+  ): Observable<T> =>
+    traced(
+      sink,
+      operation,
+      FishId.canonical(fish.fishId),
+      subscription => ({
+        source: new Observable<T>(o => {
+          const capture = captureEvents(fish.where, subscription)
+          const sub = source().subscribe(o)
+          return () => {
+            capture.unsubscribe()
+            sub.unsubscribe()
+          }
+        }),
+        onValue: value =>
+          recordState(subscription, fish.fishId)(stateOf(value)),
+      }),
+      fish.fishId,
+    )
+
+  /** Like `observeFish`, but the Fish is only known once the seed event has been found. */
+  const observeSeeded = <ESeed, S, T>(
+    operation: string,
+    seedEventSelector: Where<ESeed>,
+    makeFish: (seedEvent: ESeed) => Fish<S, any>,
+    source: (makeFish: (seedEvent: ESeed) => Fish<S, any>) => Observable<T>,
+    stateOf: (value: T) => S,
+  ): Observable<T> =>
+    traced(sink, operation, seedEventSelector.toString(), subscription => {
+      let seedFish: Fish<S, any> | undefined = undefined
+      return {
+        source: new Observable<T>(o => {
+          let capture = Subscription.EMPTY
+          const sub = source(seedEvent => {
+            const fish = makeFish(seedEvent)
+            if (seedFish === undefined) {
+              seedFish = fish
+              capture = captureEvents(fish.where, subscription)
+            }
+            return fish
+          }).subscribe(o)
+          return () => {
+            capture.unsubscribe()
+            sub.unsubscribe()
+          }
+        }),
+        onValue: value => {
+          if (seedFish !== undefined) {
+            recordState(subscription, seedFish.fishId)(stateOf(value))
+          }
+        },
+      }
+    })
+
+  // The events emitted by this node from now on, including those of effects and commands.
+  const localEvents = sink.captureEvents
+    ? rxPond
+        .events()
+        .currentOffsets()
+        .pipe(
+          switchMap(lowerBound =>
+            events().subscribe({ query: allEvents.local(), lowerBound }),
+          ),
+        )
+        .subscribe({ error: noop })
+    : Subscription.EMPTY
+
+  return {
+    ...rxPond,
+
+    // Like the plain `emit`, emitting upon subscription.
+    emit: <E>(tags: Tags<E>, event: E) =>
+      defer(() => events().emit([tags.apply(event)])).pipe(
+        map(() => undefined),
+      ),
+
+    observe: <S, E>(fish: Fish<S, E>) =>
+      observeFish(
+        'observe',
+        fish,
+        () => rxPond.observe(fish),
+        state => state,
+      ),
+
+    observeRxFish: fish =>
+      tracedOnly(sink, 'observeRxFish', fish.where.toString(), () =>
+        rxPond.observeRxFish(fish),
+      ),
+
+    observeAll: (seedEventsSelector, makeFish, opts) =>
+      tracedOnly(sink, 'observeAll', seedEventsSelector.toString(), () =>
+        rxPond.observeAll(seedEventsSelector, makeFish, opts),
+      ),
+
+    observeAllChanges: (seedEventsSelector, makeFish, opts) =>
+      tracedOnly(sink, 'observeAllChanges', seedEventsSelector.toString(), () =>
+        rxPond.observeAllChanges(seedEventsSelector, makeFish, opts),
+      ),
+
+    observeJoined: (fishes, project) =>
+      tracedOnly(
+        sink,
+        'observeJoined',
+        Object.values(fishes)
+          .map(fish => FishId.canonical(fish.fishId))
+          .join(', '),
+        () => rxPond.observeJoined(fishes, project),
+      ),
+
+    observeOne: <ESeed, S>(
+      seedEventSelector: Where<ESeed>,
+      makeFish: (seedEvent: ESeed) => Fish<S, any>,
+    ) =>
+      observeSeeded(
+        'observeOne',
+        seedEventSelector,
+        makeFish,
+        mkFish => rxPond.observeOne(seedEventSelector, mkFish),
+        (state: S) => state,
+      ),
+
+    observeCached: (fish, opts) =>
+      observeFish(
+        'observeCached',
+        fish,
+        () => rxPond.observeCached(fish, opts),
+        cached => cached.state,
+      ),
+
+    observeOneCached: (seedEventSelector, makeFish, opts) =>
+      observeSeeded(
+        'observeOneCached',
+        seedEventSelector,
+        makeFish,
+        mkFish => rxPond.observeOneCached(seedEventSelector, mkFish, opts),
+        cached => cached.state,
+      ),
+
+    run: (fish, fn) =>
+      tracedOnly(
+        sink,
+        'run',
+        FishId.canonical(fish.fishId),
+        () => rxPond.run(fish, fn),
+        fish.fishId,
+      ),
+
+    keepRunning: (fish, fn, autoCancel) => {
+      const sub = tracedOnly(
+        sink,
+        'keepRunning',
+        FishId.canonical(fish.fishId),
+        () =>
+          new Observable<never>(() => rxPond.keepRunning(fish, fn, autoCancel)),
+        fish.fishId,
+      ).subscribe()
+      return () => sub.unsubscribe()
+    },
+
+    keepRunning$: (fish, fn, autoCancel) =>
+      tracedOnly(
+        sink,
+        'keepRunning$',
+        FishId.canonical(fish.fishId),
+        () => rxPond.keepRunning$(fish, fn, autoCancel),
+        fish.fishId,
+      ),
+
+    dispatch: (handler, command, opts) =>
+      defer(() => {
+        const { fishId } = handler.fish(command)
+        return tracedOnly(
+          sink,
+          'dispatch',
+          FishId.canonical(fishId),
+          () => rxPond.dispatch(handler, command, opts),
+          fishId,
+        )
+      }),
+
+    // Emitting through the traced events, like the plain outbox relying on retries alone.
+    outbox: mkOutbox(events().emit, NEVER),
+
+    dispose: () => {
+      localEvents.unsubscribe()
+      return rxPond.dispose()
+    },
+
+    events,
+  }
+}
@@ -0,0 +1,133 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { ActyxEvent, Milliseconds, Tag } from '@actyx/pond'
+import { RxPond, windowed, WindowAggregate } from '.'
+import { from } from 'rxjs'
+import { map, toArray } from 'rxjs/operators'
+
+const ReadingTag = Tag<number>('reading')
+
+/** Events with the given timestamps (ms) and payloads, in this order of arrival. */
+const mkEvents = async (
+  readings: ReadonlyArray<[number, number]>,
+): Promise<ActyxEvent<number>[]> => {
+  const pond = RxPond.test()
+  pond.directlyPushEvents(
+    readings.map(([ms, payload]) => ({
+      tags: ['reading'],
+      payload,
+      timestamp: ms * 1000,
+    })),
+  )
+  const { events } = await pond
+    .events()
+    .queryAllKnown({ query: ReadingTag })
+    .toPromise()
+  pond.dispose()
+  return events as ActyxEvent<number>[]
+}
+
+const windows = <A>(
+  events: ActyxEvent<number>[],
+  spec: Parameters<typeof windowed>[0],
+  aggregate: WindowAggregate<number, A>,
+) =>
+  from(events)
+    .pipe(
+      windowed(spec, aggregate),
+      map(({ start, end, value, revision }) => [
+        start / 1000,
+        end / 1000,
+        value,
+        revision,
+      ]),
+      toArray(),
+    )
+    .toPromise()
+
+const value = (e: ActyxEvent<number>) => e.payload
+
+describe('windowed', () => {
+  it('aggregates tumbling windows by event time', async () => {
+    const events = await mkEvents([
+      [1000, 1],
+      [1500, 2],
+      [2100, 3],
+      [3500, 4],
+    ])
+    const size = Milliseconds.of(1000)
+
+    expect(await windows(events, { size }, WindowAggregate.sum(value))).toEqual(
+      [
+        [1000, 2000, 3, 0],
+        [2000, 3000, 3, 0],
+        [3000, 4000, 4, 0],
+      ],
+    )
+    expect(await windows(events, { size }, WindowAggregate.count())).toEqual([
+      [1000, 2000, 2, 0],
+      [2000, 3000, 1, 0],
+      [3000, 4000, 1, 0],
+    ])
+  })
+
+  it('aggregates sliding windows', async () => {
+    const events = await mkEvents([
+      [1000, 5],
+      [1600, 2],
+      [2200, 7],
+    ])
+
+    expect(
+      await windows(
+        events,
+        { size: Milliseconds.of(1000), slide: Milliseconds.of(500) },
+        WindowAggregate.max(value),
+      ),
+    ).toEqual([
+      [500, 1500, 5, 0],
+      [1000, 2000, 5, 0],
+      [1500, 2500, 7, 0],
+      [2000, 3000, 7, 0],
+    ])
+  })
+
+  it('re-emits windows corrected by late events within allowed lateness', async () => {
+    const events = await mkEvents([
+      [1000, 4],
+      [2500, 8],
+      [1200, 2],
+      [4000, 1],
+      [1300, 9],
+    ])
+
+    expect(
+      await windows(
+        events,
+        {
+          size: Milliseconds.of(1000),
+          allowedLateness: Milliseconds.of(1000),
+        },
+        WindowAggregate.min(value),
+      ),
+    ).toEqual([
+      [1000, 2000, 4, 0],
+      [1000, 2000, 2, 1],
+      [2000, 3000, 8, 0],
+      [4000, 5000, 1, 0],
+    ])
+  })
+})
@@ -0,0 +1,165 @@
+/*
+ * Copyright 2021 Actyx AG
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+import { ActyxEvent, Milliseconds, Timestamp } from '@actyx/pond'
+import { Observable, OperatorFunction } from 'rxjs'
+
+/**
+ * Event-time windows: every event falls into the windows covering its `timestampMicros`.
+ * Windows are aligned to the Unix epoch.
+ */
+export type WindowSpec = Readonly<{
+  /** Length of each window. */
+  size: Milliseconds
+  /** Distance between the starts of consecutive windows; equal to `size` (tumbling windows) by default. */
+  slide?: Milliseconds
+  /**
+   * How long after the end of a window, measured in event time, late events are still added to it.
+   * Later events are dropped. 0 by default.
+   */
+  allowedLateness?: Milliseconds
+}>
+
+/** How to fold the events of a window into a value of type `A`. */
+export type WindowAggregate<E, A> = Readonly<{
+  /** Value of a window without events. */
+  zero: A
+  add: (acc: A, event: ActyxEvent<E>) => A
+}>
+
+/** The aggregated value of one window. */
+export type EventWindow<A> = Readonly<{
+  /** Start of the window (inclusive). */
+  start: Timestamp
+  /** End of the window (exclusive). */
+  end: Timestamp
+  /** Number of events in the window. */
+  count: number
+  value: A
+  /** 0 for the first emission of the window, incremented each time late events correct it. */
+  revision: number
+}>
+
+/** Common window aggregates. */
+export const WindowAggregate = {
+  count: <E>(): WindowAggregate<E, number> => ({
+    zero: 0,
+    add: acc => acc + 1,
+  }),
+  sum: <E>(
+    value: (event: ActyxEvent<E>) => number,
+  ): WindowAggregate<E, number> => ({
+    zero: 0,
+    add: (acc, event) => acc + value(event),
+  }),
+  min: <E>(
+    value: (event: ActyxEvent<E>) => number,
+  ): WindowAggregate<E, number> => ({
+    zero: Infinity,
+    add: (acc, event) => Math.min(acc, value(event)),
+  }),
+  max: <E>(
+    value: (event: ActyxEvent<E>) => number,
+  ): WindowAggregate<E, number> => ({
+    zero: -Infinity,
+    add: (acc, event) => Math.max(acc, value(event)),
+  }),
+}
+
+type WindowState<A> = {
+  count: number
+  value: A
+  /** Revision of the next emission; -1 while not yet emitted. */
+  revision: number
+  dirty: boolean
+}
+
+/**
+ * Aggregate events into event-time windows.
+ *
+ * A window is emitted once an event at or after its end has been seen. Events arriving later,
+ * but within `allowedLateness`, are added to it and the corrected window is emitted again with
+ * an incremented `revision`. Windows still open when the source completes are emitted then.
+ *
+ * Other than `bufferTime`, this uses the timestamps of the events, so the result does not depend
+ * on when events arrive, e.g. because nodes sync late.
+ */
+export const windowed = <E, A>(
+  spec: WindowSpec,
+  aggregate: WindowAggregate<E, A>,
+): OperatorFunction<ActyxEvent<E>, EventWindow<A>> => source =>
+  new Observable<EventWindow<A>>(o => {
+    const size = spec.size * 1000
+    const slide = (spec.slide !== undefined ? spec.slide : spec.size) * 1000
+    const lateness = (spec.allowedLateness || 0) * 1000
+    const windows = new Map<number, WindowState<A>>()
+    let watermark = -Infinity
+
+    const emit = (start: number, w: WindowState<A>) => {
+      w.revision += 1
+      w.dirty = false
+      o.next({
+        start: Timestamp.of(start),
+        end: Timestamp.of(start + size),
+        count: w.count,
+        value: w.value,
+        revision: w.revision,
+      })
+    }
+
+    const emitReady = (all: boolean) => {
+      Array.from(windows.entries())
+        .sort(([a], [b]) => a - b)
+        .forEach(([start, w]) => {
+          const end = start + size
+          if ((all || end <= watermark) && (w.revision < 0 || w.dirty)) {
+            emit(start, w)
+          }
+          if (end + lateness <= watermark) {
+            windows.delete(start)
+          }
+        })
+    }
+
+    return source.subscribe(
+      event => {
+        const t = event.meta.timestampMicros
+        watermark = Math.max(watermark, t)
+        const first = Math.floor((t - size) / slide + 1) * slide
+        for (let start = first; start <= t; start += slide) {
+          if (start + size + lateness <= watermark) {
+            // Too late, the window has been discarded already.
+            continue
+          }
+          const w = windows.get(start) || {
+            count: 0,
+            value: aggregate.zero,
+            revision: -1,
+            dirty: false,
+          }
+          w.count += 1
+          w.value = aggregate.add(w.value, event)
+          w.dirty = true
+          windows.set(start, w)
+        }
+        emitReady(false)
+      },
+      err => o.error(err),
+      () => {
+        emitReady(true)
+        o.complete()
+      },
+    )
+  })